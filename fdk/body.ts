@@ -0,0 +1,419 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import querystring, {ParsedUrlQuery} from 'querystring';
+import {BadRequestError, FnHttpError} from './errors';
+import {log} from './logger';
+
+// Type declarations
+type BodyKind = 'json' | 'form' | 'multipart' | 'text' | 'binary';
+
+interface MultipartOptions {
+    // File parts are kept in memory or streamed to temporary files, removed once the response is sent
+    fileStorage?: 'memory' | 'disk';
+    tmpDir?: string;
+    maxFileSize?: number;
+    maxFiles?: number;
+    maxFields?: number;
+    maxFieldSize?: number;
+}
+
+interface BodyParserOptions {
+    // Reject bodies that are not valid JSON with a 400 instead of passing them as a string
+    strictJSON?: boolean;
+    multipart?: MultipartOptions;
+}
+
+interface UploadedFile {
+    fieldName: string;
+    filename: string;
+    contentType: string;
+    size: number;
+    // The content of files kept in memory
+    data?: Buffer;
+    // The temporary file of files streamed to disk
+    path?: string;
+}
+
+/**
+ * A decoded `multipart/form-data` body. Fields given more than once are
+ * collected in an array.
+ */
+interface MultipartBody {
+    fields: { [name: string]: string | string[] };
+    files: UploadedFile[];
+}
+
+interface BodyDecoder {
+    pushData(data: Buffer | string): void;
+    getBody(): unknown;
+    dispose?(): void;
+}
+
+interface PartState {
+    name: string;
+    filename?: string;
+    contentType: string;
+    size: number;
+    chunks: Buffer[];
+    fd?: number;
+    path?: string;
+}
+
+// Constants
+const defaultMaxFileSize = 10 * 1024 * 1024;
+const defaultMaxFiles = 10;
+const defaultMaxFields = 100;
+const defaultMaxFieldSize = 1024 * 1024;
+const maxPartHeaderSize = 16 * 1024;
+const headerSeparator = Buffer.from('\r\n\r\n');
+const lineBreak = Buffer.from('\r\n');
+
+/**
+ * Decodes `application/x-www-form-urlencoded` bodies into an object.
+ */
+class FormBodyDecoder implements BodyDecoder {
+    private str = '';
+
+    pushData(data: Buffer | string): void {
+        this.str += data.toString();
+    }
+
+    getBody(): ParsedUrlQuery {
+        return querystring.parse(this.str);
+    }
+}
+
+/**
+ * Decodes `text/*` bodies into a string, in the charset of the content type.
+ */
+class TextBodyDecoder implements BodyDecoder {
+    private buffers: Buffer[] = [];
+
+    constructor(private encoding: BufferEncoding) {}
+
+    pushData(data: Buffer | string): void {
+        this.buffers.push(Buffer.from(data));
+    }
+
+    getBody(): string {
+        return Buffer.concat(this.buffers).toString(this.encoding);
+    }
+}
+
+/**
+ * Decodes `multipart/form-data` bodies as they arrive. Parts without a
+ * filename are fields, the others files. A body that breaks a limit or is
+ * malformed fails when it is read with getBody().
+ */
+class MultipartBodyDecoder implements BodyDecoder {
+    private readonly delimiter: Buffer;
+    private readonly fileStorage: 'memory' | 'disk';
+    private readonly tmpDir: string;
+    private readonly maxFileSize: number;
+    private readonly maxFiles: number;
+    private readonly maxFields: number;
+    private readonly maxFieldSize: number;
+    private pending: Buffer;
+    private state: 'preamble' | 'headers' | 'body' | 'done' = 'preamble';
+    private part: PartState | null = null;
+    private error: Error | null = null;
+    private fieldCount = 0;
+    private readonly body: MultipartBody = {fields: {}, files: []};
+
+    constructor(boundary: string, options: MultipartOptions = {}) {
+        this.delimiter = Buffer.from(`\r\n--${boundary}`);
+        // The first delimiter may be at the very start of the body, without a line break
+        this.pending = Buffer.from('\r\n');
+        this.fileStorage = options.fileStorage || 'memory';
+        this.tmpDir = options.tmpDir || os.tmpdir();
+        this.maxFileSize = options.maxFileSize ?? defaultMaxFileSize;
+        this.maxFiles = options.maxFiles ?? defaultMaxFiles;
+        this.maxFields = options.maxFields ?? defaultMaxFields;
+        this.maxFieldSize = options.maxFieldSize ?? defaultMaxFieldSize;
+    }
+
+    pushData(data: Buffer | string): void {
+        if (this.error || this.state === 'done') {
+            return;
+        }
+        this.pending = Buffer.concat([this.pending, Buffer.from(data)]);
+        try {
+            this.parse();
+        } catch (e) {
+            this.error = e as Error;
+            this.closePart();
+        }
+    }
+
+    getBody(): MultipartBody {
+        if (this.error) {
+            throw this.error;
+        }
+        if (this.state !== 'done') {
+            throw new BadRequestError('Invalid multipart body: missing closing boundary', {code: 'INVALID_MULTIPART'});
+        }
+        return this.body;
+    }
+
+    // Removes the temporary files of the body
+    dispose(): void {
+        this.closePart();
+        for (const file of this.body.files) {
+            if (file.path) {
+                fs.rm(file.path, {force: true}, (e) => {
+                    if (e) {
+                        log.warn(`Unable to remove ${file.path}`, {error: e});
+                    }
+                });
+            }
+        }
+    }
+
+    private parse(): void {
+        for (;;) {
+            if (this.state === 'preamble' || this.state === 'body') {
+                const index = this.pending.indexOf(this.delimiter);
+                if (index < 0) {
+                    // Keep what could be the start of a delimiter split across chunks
+                    const keep = Math.min(this.pending.length, this.delimiter.length - 1);
+                    this.writePart(this.pending.subarray(0, this.pending.length - keep));
+                    this.pending = this.pending.subarray(this.pending.length - keep);
+                    return;
+                }
+                // The delimiter is followed by `--` for the last part, a line break otherwise
+                const after = index + this.delimiter.length;
+                if (this.pending.length < after + 2) {
+                    this.writePart(this.pending.subarray(0, index));
+                    this.pending = this.pending.subarray(index);
+                    return;
+                }
+                this.writePart(this.pending.subarray(0, index));
+                this.finishPart();
+                const suffix = this.pending.subarray(after, after + 2).toString();
+                this.pending = this.pending.subarray(after + 2);
+                if (suffix === '--') {
+                    this.state = 'done';
+                    return;
+                }
+                if (suffix !== '\r\n') {
+                    throw new BadRequestError('Invalid multipart body: malformed boundary', {code: 'INVALID_MULTIPART'});
+                }
+                this.state = 'headers';
+            } else if (this.state === 'headers') {
+                const index = this.pending.indexOf(headerSeparator);
+                if (index < 0) {
+                    if (this.pending.length > maxPartHeaderSize) {
+                        throw new BadRequestError('Invalid multipart body: part headers too large', {code: 'INVALID_MULTIPART'});
+                    }
+                    return;
+                }
+                this.startPart(this.pending.subarray(0, index).toString());
+                this.pending = this.pending.subarray(index + headerSeparator.length);
+                this.state = 'body';
+            } else {
+                return;
+            }
+        }
+    }
+
+    private startPart(rawHeaders: string): void {
+        const headers: { [name: string]: string } = {};
+        for (const line of rawHeaders.split(lineBreak.toString())) {
+            const colon = line.indexOf(':');
+            if (colon > 0) {
+                headers[line.substring(0, colon).trim().toLowerCase()] = line.substring(colon + 1).trim();
+            }
+        }
+        const disposition = parseHeaderParams(headers['content-disposition'] || '');
+        if (disposition.value.toLowerCase() !== 'form-data' || disposition.params.name === undefined) {
+            throw new BadRequestError('Invalid multipart body: part without a form-data name', {code: 'INVALID_MULTIPART'});
+        }
+
+        const part: PartState = {
+            name: disposition.params.name,
+            filename: disposition.params['filename*'] !== undefined ?
+                decodeExtendedValue(disposition.params['filename*']) : disposition.params.filename,
+            contentType: headers['content-type'] || (disposition.params.filename !== undefined ?
+                'application/octet-stream' : 'text/plain'),
+            size: 0,
+            chunks: []
+        };
+        if (part.filename !== undefined) {
+            if (this.body.files.length >= this.maxFiles) {
+                throw new FnHttpError(413, `Too many files, at most ${this.maxFiles} are accepted`);
+            }
+            if (this.fileStorage === 'disk') {
+                part.path = path.join(this.tmpDir, `fdk-upload-${crypto.randomUUID()}`);
+                part.fd = fs.openSync(part.path, 'wx', 0o600);
+                // Listed right away so the file is removed even if the body fails later
+                this.body.files.push({fieldName: part.name, filename: part.filename, contentType: part.contentType, size: 0, path: part.path});
+            }
+        } else if (++this.fieldCount > this.maxFields) {
+            throw new FnHttpError(413, `Too many fields, at most ${this.maxFields} are accepted`);
+        }
+        this.part = part;
+    }
+
+    private writePart(data: Buffer): void {
+        const part = this.part;
+        if (!part || data.length === 0) {
+            return;
+        }
+        part.size += data.length;
+        const isFile = part.filename !== undefined;
+        if (isFile && part.size > this.maxFileSize) {
+            throw new FnHttpError(413, `File ${part.filename} exceeds the maximum size of ${this.maxFileSize} bytes`);
+        }
+        if (!isFile && part.size > this.maxFieldSize) {
+            throw new FnHttpError(413, `Field ${part.name} exceeds the maximum size of ${this.maxFieldSize} bytes`);
+        }
+        if (part.fd !== undefined) {
+            fs.writeSync(part.fd, data);
+        } else {
+            // The pending buffer is reused, keep a copy
+            part.chunks.push(Buffer.from(data));
+        }
+    }
+
+    private finishPart(): void {
+        const part = this.part;
+        if (!part) {
+            return;
+        }
+        this.closePart();
+        this.part = null;
+        if (part.filename === undefined) {
+            addField(this.body.fields, part.name, Buffer.concat(part.chunks).toString());
+        } else if (part.path) {
+            this.body.files.find((file) => file.path === part.path)!.size = part.size;
+        } else {
+            this.body.files.push({
+                fieldName: part.name,
+                filename: part.filename,
+                contentType: part.contentType,
+                size: part.size,
+                data: Buffer.concat(part.chunks)
+            });
+        }
+    }
+
+    private closePart(): void {
+        if (this.part?.fd !== undefined) {
+            fs.closeSync(this.part.fd);
+            this.part.fd = undefined;
+        }
+    }
+}
+
+/**
+ * The kind of a body by its content type. Bodies without one are treated as
+ * JSON, falling back to a string unless strict.
+ */
+function bodyKind(contentType: string): BodyKind {
+    const type = contentType.split(';')[0].trim().toLowerCase();
+    if (!type || type === 'application/json' || type.endsWith('+json')) {
+        return 'json';
+    }
+    if (type === 'application/x-www-form-urlencoded') {
+        return 'form';
+    }
+    if (type === 'multipart/form-data') {
+        return 'multipart';
+    }
+    return type.startsWith('text/') ? 'text' : 'binary';
+}
+
+/**
+ * Creates the decoder for form, multipart and text bodies.
+ */
+function createBodyDecoder(kind: 'form' | 'multipart' | 'text', contentType: string, options: BodyParserOptions = {}): BodyDecoder {
+    const params = parseHeaderParams(contentType).params;
+    switch (kind) {
+        case 'form':
+            return new FormBodyDecoder();
+        case 'text':
+            return new TextBodyDecoder(textEncoding(params.charset));
+        case 'multipart':
+            if (!params.boundary) {
+                return failingDecoder(new BadRequestError('Invalid multipart body: missing boundary', {code: 'INVALID_MULTIPART'}));
+            }
+            return new MultipartBodyDecoder(params.boundary, options.multipart);
+    }
+}
+
+function failingDecoder(error: Error): BodyDecoder {
+    return {
+        pushData: () => undefined,
+        getBody: () => {
+            throw error;
+        }
+    };
+}
+
+function textEncoding(charset: string | undefined): BufferEncoding {
+    switch ((charset || 'utf-8').toLowerCase()) {
+        case 'iso-8859-1':
+        case 'latin1':
+        case 'us-ascii':
+            return 'latin1';
+        case 'utf-16le':
+            return 'utf16le';
+        default:
+            return 'utf8';
+    }
+}
+
+// Splits a header value like `form-data; name="a"; filename="b.txt"`
+function parseHeaderParams(header: string): { value: string, params: { [name: string]: string } } {
+    const params: { [name: string]: string } = {};
+    const semicolon = header.indexOf(';');
+    const value = (semicolon < 0 ? header : header.substring(0, semicolon)).trim();
+    const re = /;\s*([^\s=;]+)\s*=\s*(?:"((?:[^"\\]|\\.)*)"|([^;]*))/g;
+    let match: RegExpExecArray | null;
+    while ((match = re.exec(header)) !== null) {
+        const name = match[1].toLowerCase();
+        if (params[name] === undefined) {
+            params[name] = match[2] !== undefined ? match[2].replace(/\\(.)/g, '$1') : match[3].trim();
+        }
+    }
+    return {value, params};
+}
+
+// RFC 5987 values, e.g. `UTF-8''na%C3%AFve.txt`
+function decodeExtendedValue(value: string): string {
+    const match = /^[^']*'[^']*'(.*)$/.exec(value);
+    try {
+        return decodeURIComponent(match ? match[1] : value);
+    } catch (e) {
+        return value;
+    }
+}
+
+function addField(fields: { [name: string]: string | string[] }, name: string, value: string): void {
+    const existing = fields[name];
+    if (existing === undefined) {
+        fields[name] = value;
+    } else if (Array.isArray(existing)) {
+        existing.push(value);
+    } else {
+        fields[name] = [existing, value];
+    }
+}
+
+// Export public API
+export {
+    bodyKind,
+    createBodyDecoder
+};
+
+// Type exports
+export type {
+    BodyDecoder,
+    BodyKind,
+    BodyParserOptions,
+    MultipartBody,
+    MultipartOptions,
+    UploadedFile
+};
@@ -0,0 +1,230 @@
+import crypto from 'crypto';
+import {Context, FnResponse, FnResult, isGatewayInvocation, RawResult} from './fdk';
+import {BadRequestError} from './errors';
+
+// Type declarations
+/**
+ * A CloudEvents 1.0 event. Extension attributes are kept as extra properties.
+ */
+interface CloudEvent<T = unknown> {
+    specversion: string;
+    id: string;
+    source: string;
+    type: string;
+    datacontenttype?: string;
+    dataschema?: string;
+    subject?: string;
+    time?: string;
+    data?: T;
+    [extension: string]: unknown;
+}
+
+type CloudEventMode = 'structured' | 'binary';
+
+// Constants
+const cloudEventsContentType = 'application/cloudevents+json';
+const cloudEventsBatchContentType = 'application/cloudevents-batch+json';
+const cloudEventsSpecVersion = '1.0';
+const requiredAttributes = ['specversion', 'id', 'source', 'type'];
+const binaryHeaderPrefix = 'Ce-';
+
+function isCloudEvent(value: unknown): value is CloudEvent {
+    if (value === null || typeof value !== 'object') {
+        return false;
+    }
+    const event = value as { [key: string]: unknown };
+    return requiredAttributes.every((name) => typeof event[name] === 'string');
+}
+
+/**
+ * Fills in the attributes of an event that are not given: a random ID, the
+ * spec version and the current time.
+ */
+function createCloudEvent<T>(attributes: Partial<CloudEvent<T>> & { source: string, type: string }): CloudEvent<T> {
+    return {
+        specversion: cloudEventsSpecVersion,
+        id: crypto.randomUUID(),
+        time: new Date().toISOString(),
+        ...attributes
+    };
+}
+
+/**
+ * The mode an invocation carries its event in: structured if the body is a
+ * `application/cloudevents+json` envelope, binary if the attributes are sent
+ * as `ce-*` headers.
+ */
+function cloudEventMode(ctx: Context): CloudEventMode | null {
+    const contentType = (header(ctx, 'Content-Type') || '').toLowerCase();
+    if (contentType.startsWith(cloudEventsContentType)) {
+        return 'structured';
+    }
+    return header(ctx, `${binaryHeaderPrefix}Specversion`) ? 'binary' : null;
+}
+
+/**
+ * Decodes the event an invocation carries. Throws a BadRequestError if there
+ * is none or it is invalid.
+ */
+function decodeCloudEvent(ctx: Context, body: Buffer): CloudEvent {
+    const contentType = header(ctx, 'Content-Type') || '';
+    if (contentType.toLowerCase().startsWith(cloudEventsBatchContentType)) {
+        throw new BadRequestError('Batched CloudEvents are not supported');
+    }
+
+    let event: { [key: string]: unknown };
+    switch (cloudEventMode(ctx)) {
+        case 'structured':
+            try {
+                event = JSON.parse(body.toString());
+            } catch (e) {
+                throw new BadRequestError('Invalid CloudEvent: body is not valid JSON', {cause: e});
+            }
+            if (event === null || typeof event !== 'object' || Array.isArray(event)) {
+                throw new BadRequestError('Invalid CloudEvent: body is not a JSON object');
+            }
+            if (typeof event.data_base64 === 'string') {
+                event.data = Buffer.from(event.data_base64, 'base64');
+                delete event.data_base64;
+            }
+            break;
+        case 'binary':
+            event = binaryAttributes(ctx);
+            if (contentType) {
+                event.datacontenttype = contentType;
+            }
+            if (body.length > 0) {
+                event.data = decodeData(body, contentType);
+            }
+            break;
+        default:
+            throw new BadRequestError('Request is not a CloudEvent: expected a ce-specversion header ' +
+                `or a ${cloudEventsContentType} body`);
+    }
+
+    const missing = requiredAttributes.filter((name) => typeof event[name] !== 'string' || !event[name]);
+    if (missing.length > 0) {
+        throw new BadRequestError(`Invalid CloudEvent: missing ${missing.join(', ')}`, {
+            details: {missing}
+        });
+    }
+    if (event.specversion !== cloudEventsSpecVersion) {
+        throw new BadRequestError(`Unsupported CloudEvents spec version ${event.specversion}`);
+    }
+    return event as CloudEvent;
+}
+
+/**
+ * Turns a function result into the event sent back, in the same mode as the
+ * request. Values that are not events are wrapped in an event of type
+ * `<request type>.response`; FnResult and FnResponse results are sent as they are.
+ */
+function encodeCloudEventResponse(ctx: Context, result: unknown): unknown {
+    if (result == null || result instanceof FnResult || result instanceof FnResponse) {
+        return result;
+    }
+
+    let event: CloudEvent;
+    if (isCloudEvent(result)) {
+        event = result;
+    } else {
+        const request = isCloudEvent(ctx.body) ? ctx.body : undefined;
+        event = createCloudEvent({
+            source: `/fn/${ctx.appName}/${ctx.fnName}`,
+            type: request ? `${request.type}.response` : 'com.fnproject.fn.response',
+            datacontenttype: Buffer.isBuffer(result) ? 'application/octet-stream' :
+                typeof result === 'string' ? 'text/plain' : 'application/json',
+            data: result
+        });
+    }
+
+    if (cloudEventMode(ctx) === 'binary') {
+        const {data, datacontenttype, data_base64: dataBase64, ...attributes} = event;
+        // Gateway callers only see the headers the gateway unwraps from Fn-Http-H-*
+        const setHeader = isGatewayInvocation(ctx) ?
+            (name: string, value: string) => ctx.httpGateway.setResponseHeader(name, value) :
+            (name: string, value: string) => ctx.setResponseHeader(name, value);
+        for (const name of Object.keys(attributes)) {
+            if (attributes[name] != null) {
+                setHeader(binaryHeaderPrefix + name, encodeURIComponent(String(attributes[name])));
+            }
+        }
+        const contentType = datacontenttype || 'application/json';
+        ctx.responseContentType = contentType;
+        return new RawResult(encodeData(data));
+    }
+
+    const envelope: { [key: string]: unknown } = {...event};
+    if (Buffer.isBuffer(event.data)) {
+        envelope.data_base64 = event.data.toString('base64');
+        delete envelope.data;
+    }
+    ctx.responseContentType = cloudEventsContentType;
+    return new RawResult(JSON.stringify(envelope));
+}
+
+function binaryAttributes(ctx: Context): { [key: string]: unknown } {
+    const attributes: { [key: string]: unknown } = {};
+    const gatewayPrefix = 'Fn-Http-H-' + binaryHeaderPrefix;
+    for (const key of Object.keys(ctx.headers)) {
+        const name = key.startsWith(binaryHeaderPrefix) ? key.substring(binaryHeaderPrefix.length) :
+            key.startsWith(gatewayPrefix) ? key.substring(gatewayPrefix.length) : null;
+        if (name && attributes[name.toLowerCase()] === undefined) {
+            attributes[name.toLowerCase()] = decodeAttribute(ctx.headers[key][0]);
+        }
+    }
+    return attributes;
+}
+
+function decodeAttribute(value: string): string {
+    try {
+        return decodeURIComponent(value);
+    } catch (e) {
+        return value;
+    }
+}
+
+function decodeData(body: Buffer, contentType: string): unknown {
+    const type = contentType.split(';')[0].trim().toLowerCase();
+    if (type === 'application/json' || type.endsWith('+json')) {
+        try {
+            return JSON.parse(body.toString());
+        } catch (e) {
+            throw new BadRequestError('Invalid CloudEvent: data is not valid JSON', {cause: e});
+        }
+    }
+    if (type.startsWith('text/')) {
+        return body.toString();
+    }
+    return body;
+}
+
+function encodeData(data: unknown): Buffer | string {
+    if (data === undefined) {
+        return '';
+    }
+    if (Buffer.isBuffer(data) || typeof data === 'string') {
+        return data;
+    }
+    return JSON.stringify(data);
+}
+
+// Headers of gateway invocations are wrapped as Fn-Http-H-*
+function header(ctx: Context, name: string): string | null {
+    return ctx.getHeader(name) || ctx.httpGateway.getHeader(name);
+}
+
+// Export public API
+export {
+    isCloudEvent,
+    createCloudEvent,
+    cloudEventMode,
+    decodeCloudEvent,
+    encodeCloudEventResponse
+};
+
+// Type exports
+export type {
+    CloudEvent,
+    CloudEventMode
+};
@@ -0,0 +1,146 @@
+import zlib from 'zlib';
+import type {Context} from './fdk';
+
+// Type declarations
+type ContentEncoding = 'br' | 'gzip' | 'deflate';
+
+interface CompressionOptions {
+    // Smallest body compressed, in bytes. Bodies of unknown size, such as streams, are always compressed
+    threshold?: number;
+    // The encodings offered, in order of preference
+    encodings?: ContentEncoding[];
+    // zlib compression level, or brotli quality for br
+    level?: number;
+    // Decides which content types are compressed, by default text, JSON, XML and JavaScript
+    filter?: (contentType: string) => boolean;
+}
+
+// Constants
+const defaultThreshold = 1024;
+const defaultEncodings: ContentEncoding[] = ['br', 'gzip', 'deflate'];
+// Brotli's default quality of 11 is too slow for responses compressed on the fly
+const defaultBrotliQuality = 4;
+// Server-sent events are flushed as they are written, buffering them in an encoder would hold them back
+const compressibleType = /^(text\/(?!event-stream)|application\/(json|xml|javascript|x-javascript|graphql)|image\/svg\+xml)|\+(json|xml)/i;
+const noBodyStatuses = [204, 304];
+// The encoding each response was compressed with
+const appliedEncodings = new WeakMap<Context, ContentEncoding>();
+
+function isCompressible(contentType: string): boolean {
+    return compressibleType.test(contentType);
+}
+
+/**
+ * Picks the encoding to use from an `Accept-Encoding` header: the one with
+ * the highest quality, the order of `available` breaking ties.
+ */
+function negotiateEncoding(acceptEncoding: string, available: ContentEncoding[] = defaultEncodings): ContentEncoding | null {
+    const qualities: { [coding: string]: number } = {};
+    for (const entry of acceptEncoding.split(',')) {
+        const [coding, ...params] = entry.trim().toLowerCase().split(';');
+        if (!coding) {
+            continue;
+        }
+        const q = params.map((p) => p.trim()).find((p) => p.startsWith('q='));
+        const quality = q ? parseFloat(q.substring(2)) : 1;
+        qualities[coding.trim()] = isNaN(quality) ? 0 : quality;
+    }
+
+    let best: ContentEncoding | null = null;
+    let bestQuality = 0;
+    for (const encoding of available) {
+        const quality = qualities[encoding] ?? qualities['*'] ?? 0;
+        if (quality > bestQuality) {
+            best = encoding;
+            bestQuality = quality;
+        }
+    }
+    return best;
+}
+
+/**
+ * Decides whether a gateway response is compressed, before its head is
+ * written. Compressible responses get `Vary: Accept-Encoding`; if the caller
+ * accepts an encoding and the body is not below the threshold,
+ * `Content-Encoding` is set and the encoder to write the body through is
+ * returned.
+ */
+function startCompression(ctx: Context, size?: number): zlib.Gzip | zlib.Deflate | zlib.BrotliCompress | null {
+    const options = ctx.compression;
+    const contentType = ctx.responseContentType;
+    if (!options || !contentType || !(options.filter || isCompressible)(contentType)) {
+        return null;
+    }
+    const status = parseInt(ctx.getResponseHeader('Fn-Http-Status') || '200');
+    if (ctx.getResponseHeader('Fn-Http-H-Content-Encoding') || noBodyStatuses.includes(status) ||
+        ctx.httpGateway.method.toUpperCase() === 'HEAD') {
+        return null;
+    }
+
+    const vary = (ctx.responseHeaders['Fn-Http-H-Vary'] || []).join(',').toLowerCase();
+    if (!vary.includes('accept-encoding') && !vary.includes('*')) {
+        ctx.httpGateway.addResponseHeader('Vary', 'Accept-Encoding');
+    }
+    if (size !== undefined && size < (options.threshold ?? defaultThreshold)) {
+        return null;
+    }
+    const encoding = negotiateEncoding(ctx.httpGateway.getHeader('Accept-Encoding') || '', options.encodings);
+    if (!encoding) {
+        return null;
+    }
+    ctx.httpGateway.setResponseHeader('Content-Encoding', encoding);
+    appliedEncodings.set(ctx, encoding);
+    return createEncoder(encoding, options.level);
+}
+
+/**
+ * The encoding `startCompression` chose for the response of an invocation,
+ * null if its body is sent as the function wrote it.
+ */
+function appliedEncoding(ctx: Context): ContentEncoding | null {
+    return appliedEncodings.get(ctx) || null;
+}
+
+/**
+ * Decodes a body compressed with `encoding`. Bodies decoding to more than
+ * `maxLength` bytes fail with a RangeError.
+ */
+function decompress(body: Buffer, encoding: ContentEncoding, maxLength?: number): Buffer {
+    const options = {maxOutputLength: maxLength};
+    switch (encoding) {
+        case 'br':
+            return zlib.brotliDecompressSync(body, options);
+        case 'gzip':
+            return zlib.gunzipSync(body, options);
+        case 'deflate':
+            return zlib.inflateSync(body, options);
+    }
+}
+
+function createEncoder(encoding: ContentEncoding, level?: number): zlib.Gzip | zlib.Deflate | zlib.BrotliCompress {
+    switch (encoding) {
+        case 'br':
+            return zlib.createBrotliCompress({
+                params: {[zlib.constants.BROTLI_PARAM_QUALITY]: level ?? defaultBrotliQuality}
+            });
+        case 'gzip':
+            return zlib.createGzip({level});
+        case 'deflate':
+            return zlib.createDeflate({level});
+    }
+}
+
+// Export public API
+export {
+    appliedEncoding,
+    decompress,
+    isCompressible,
+    negotiateEncoding,
+    startCompression
+};
+
+// Type exports
+export type {
+    CompressionOptions,
+    ContentEncoding
+};
@@ -0,0 +1,288 @@
+import fs from 'fs';
+import {describeIssues, validate, Validator} from './schema';
+
+// Type declarations
+interface ConfigEnv {
+    [key: string]: string | undefined;
+}
+
+interface ConfigKeyOptions {
+    // Name of the config variable, defaults to the key
+    env?: string;
+    required?: boolean;
+    description?: string;
+}
+
+interface StringConfigKey extends ConfigKeyOptions {
+    type: 'string';
+    default?: string;
+    enum?: string[];
+}
+
+interface NumberConfigKey extends ConfigKeyOptions {
+    type: 'number';
+    default?: number;
+    min?: number;
+    max?: number;
+    integer?: boolean;
+}
+
+interface BooleanConfigKey extends ConfigKeyOptions {
+    type: 'boolean';
+    default?: boolean;
+}
+
+interface JSONConfigKey<T = unknown> extends ConfigKeyOptions {
+    type: 'json';
+    default?: T;
+    schema?: Validator<T>;
+}
+
+interface URLConfigKey extends ConfigKeyOptions {
+    type: 'url';
+    default?: string;
+    protocols?: string[];
+}
+
+// Durations are given as `1500`, `500ms`, `30s`, `5m`, `1h30m` or `1d` and read as milliseconds
+interface DurationConfigKey extends ConfigKeyOptions {
+    type: 'duration';
+    default?: number | string;
+}
+
+type ConfigKey =
+    StringConfigKey |
+    NumberConfigKey |
+    BooleanConfigKey |
+    JSONConfigKey<any> |
+    URLConfigKey |
+    DurationConfigKey;
+
+interface ConfigSpec {
+    [key: string]: ConfigKey;
+}
+
+type ConfigKeyValue<K> =
+    K extends { type: 'string' } ? string :
+    K extends { type: 'number' } ? number :
+    K extends { type: 'boolean' } ? boolean :
+    K extends { type: 'url' } ? URL :
+    K extends { type: 'duration' } ? number :
+    K extends JSONConfigKey<infer T> ? T :
+    never;
+
+/**
+ * The values loaded for a spec: keys that are required or have a default are
+ * always present, others may be undefined.
+ */
+type ConfigValues<S extends ConfigSpec> = {
+    readonly [P in keyof S]: S[P] extends { required: true } | { default: {} } ?
+        ConfigKeyValue<S[P]> :
+        ConfigKeyValue<S[P]> | undefined;
+};
+
+// Constants
+const fileSuffix = '_FILE';
+const durationUnits: { [unit: string]: number } = {
+    ms: 1,
+    s: 1000,
+    m: 60 * 1000,
+    h: 60 * 60 * 1000,
+    d: 24 * 60 * 60 * 1000
+};
+const trueValues = ['true', '1', 'yes', 'on'];
+const falseValues = ['false', '0', 'no', 'off'];
+
+/**
+ * Thrown when the function config does not satisfy its definition. Every
+ * problem found is listed, not just the first.
+ */
+class ConfigError extends Error {
+    constructor(readonly problems: string[]) {
+        super(`Invalid function configuration: ${problems.join('; ')}`);
+        this.name = 'ConfigError';
+    }
+}
+
+/**
+ * A declared set of config keys. load() reads them from the function config,
+ * coerces them to their types and applies defaults.
+ */
+class ConfigDefinition<T> {
+    constructor(readonly spec: ConfigSpec) {}
+
+    /**
+     * Loads the values from `env`. A key that is unset may be read from the
+     * file named by `<NAME>_FILE` instead, which is how secrets are usually mounted.
+     */
+    load(env: ConfigEnv = process.env): T {
+        const values: { [key: string]: unknown } = {};
+        const problems: string[] = [];
+
+        for (const key of Object.keys(this.spec)) {
+            const option = this.spec[key];
+            const name = option.env || key;
+            const raw = readRaw(name, env, problems);
+
+            if (raw === undefined && option.default === undefined) {
+                if (option.required) {
+                    problems.push(`${name} is required`);
+                }
+                continue;
+            }
+
+            try {
+                values[key] = raw !== undefined ? coerce(option, raw) : defaultValue(option);
+            } catch (e) {
+                problems.push(`${name} ${(e as Error).message}`);
+            }
+        }
+
+        if (problems.length > 0) {
+            throw new ConfigError(problems);
+        }
+        return values as T;
+    }
+}
+
+/**
+ * Declares the config keys a function reads, for example
+ * `defineConfig({DB_URL: {type: 'url', required: true}, POOL_SIZE: {type: 'number', default: 4}})`.
+ */
+function defineConfig<S extends ConfigSpec>(spec: S): ConfigDefinition<ConfigValues<S>> {
+    return new ConfigDefinition<ConfigValues<S>>(spec);
+}
+
+function readRaw(name: string, env: ConfigEnv, problems: string[]): string | undefined {
+    const value = env[name];
+    const file = env[name + fileSuffix];
+    if (value !== undefined && value !== '') {
+        if (file) {
+            problems.push(`${name} and ${name}${fileSuffix} are both set`);
+        }
+        return value;
+    }
+    if (!file) {
+        return undefined;
+    }
+    try {
+        return fs.readFileSync(file, 'utf8').replace(/\r?\n$/, '');
+    } catch (e) {
+        problems.push(`${name}${fileSuffix} could not be read: ${(e as Error).message}`);
+        return undefined;
+    }
+}
+
+// URL and duration defaults may be given in their string form
+function defaultValue(option: ConfigKey): unknown {
+    if (typeof option.default === 'string' && (option.type === 'url' || option.type === 'duration')) {
+        return coerce(option, option.default);
+    }
+    return option.default;
+}
+
+function coerce(option: ConfigKey, raw: string): unknown {
+    switch (option.type) {
+        case 'string':
+            if (option.enum && !option.enum.includes(raw)) {
+                throw new Error(`must be one of ${option.enum.join(', ')}`);
+            }
+            return raw;
+        case 'number': {
+            const value = Number(raw.trim());
+            if (raw.trim() === '' || isNaN(value)) {
+                throw new Error('must be a number');
+            }
+            if (option.integer && !Number.isInteger(value)) {
+                throw new Error('must be an integer');
+            }
+            if (option.min !== undefined && value < option.min) {
+                throw new Error(`must be >= ${option.min}`);
+            }
+            if (option.max !== undefined && value > option.max) {
+                throw new Error(`must be <= ${option.max}`);
+            }
+            return value;
+        }
+        case 'boolean': {
+            const value = raw.trim().toLowerCase();
+            if (trueValues.includes(value)) {
+                return true;
+            }
+            if (falseValues.includes(value)) {
+                return false;
+            }
+            throw new Error('must be a boolean (true/false, yes/no, on/off or 1/0)');
+        }
+        case 'json': {
+            let value: unknown;
+            try {
+                value = JSON.parse(raw);
+            } catch (e) {
+                throw new Error(`must be valid JSON: ${(e as Error).message}`);
+            }
+            if (option.schema) {
+                const issues = validate(option.schema, value);
+                if (issues.length > 0) {
+                    throw new Error(`is invalid: ${describeIssues(issues)}`);
+                }
+            }
+            return value;
+        }
+        case 'url': {
+            let value: URL;
+            try {
+                value = new URL(raw.trim());
+            } catch (e) {
+                throw new Error('must be a valid URL');
+            }
+            if (option.protocols && !option.protocols.includes(value.protocol.replace(/:$/, ''))) {
+                throw new Error(`must use one of the protocols ${option.protocols.join(', ')}`);
+            }
+            return value;
+        }
+        case 'duration':
+            return parseDuration(raw);
+    }
+}
+
+/**
+ * Parses a duration such as `250ms`, `30s` or `1h30m` to milliseconds. A plain
+ * number is taken as milliseconds.
+ */
+function parseDuration(raw: string): number {
+    const value = raw.trim();
+    if (/^\d+(\.\d+)?$/.test(value)) {
+        return Number(value);
+    }
+    const parts = value.match(/\d+(\.\d+)?(ms|s|m|h|d)/g);
+    if (!parts || parts.join('') !== value) {
+        throw new Error('must be a duration such as 500ms, 30s, 5m or 1h30m');
+    }
+    return parts.reduce((total, part) => {
+        const [, amount, unit] = /^(\d+(?:\.\d+)?)(ms|s|m|h|d)$/.exec(part)!;
+        return total + Number(amount) * durationUnits[unit];
+    }, 0);
+}
+
+// Export public API
+export {
+    ConfigDefinition,
+    ConfigError,
+    defineConfig,
+    parseDuration
+};
+
+// Type exports
+export type {
+    ConfigEnv,
+    ConfigKey,
+    ConfigSpec,
+    ConfigValues,
+    StringConfigKey,
+    NumberConfigKey,
+    BooleanConfigKey,
+    JSONConfigKey,
+    URLConfigKey,
+    DurationConfigKey
+};
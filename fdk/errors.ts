@@ -0,0 +1,203 @@
+import http from 'http';
+import type {Context} from './fdk';
+
+// Type declarations
+interface FnHttpErrorOptions {
+    code?: string;
+    details?: unknown;
+    headers?: { [key: string]: string | string[] };
+    cause?: unknown;
+}
+
+/**
+ * An error as it is reported to the caller, after deciding what may be exposed.
+ */
+interface FnErrorInfo {
+    status: number;
+    code: string;
+    message: string;
+    detail?: string;
+    details?: unknown;
+    stack?: string;
+}
+
+interface FormattedError {
+    contentType: string;
+    body: { [key: string]: unknown };
+}
+
+type ErrorFormatter = (error: FnErrorInfo, ctx: Context) => FormattedError;
+
+// Constants
+const fnFunctionExceptionMessage = 'Exception in function, consult logs for details';
+
+/**
+ * An error with an HTTP status that is safe to show to the caller. Thrown from
+ * a function it is rendered as the response instead of a generic 502.
+ */
+class FnHttpError extends Error {
+    readonly status: number;
+    readonly code: string;
+    readonly details?: unknown;
+    readonly headers: { [key: string]: string | string[] };
+    readonly cause?: unknown;
+
+    constructor(status: number, message?: string, options: FnHttpErrorOptions = {}) {
+        super(message || http.STATUS_CODES[status] || 'Error');
+        this.name = new.target.name;
+        this.status = status;
+        this.code = options.code || defaultErrorCode(status);
+        this.details = options.details;
+        this.headers = options.headers || {};
+        this.cause = options.cause;
+    }
+}
+
+class BadRequestError extends FnHttpError {
+    constructor(message?: string, options?: FnHttpErrorOptions) {
+        super(400, message, options);
+    }
+}
+
+class UnauthorizedError extends FnHttpError {
+    constructor(message?: string, options?: FnHttpErrorOptions) {
+        super(401, message, options);
+    }
+}
+
+class ForbiddenError extends FnHttpError {
+    constructor(message?: string, options?: FnHttpErrorOptions) {
+        super(403, message, options);
+    }
+}
+
+class NotFoundError extends FnHttpError {
+    constructor(message?: string, options?: FnHttpErrorOptions) {
+        super(404, message, options);
+    }
+}
+
+class ConflictError extends FnHttpError {
+    constructor(message?: string, options?: FnHttpErrorOptions) {
+        super(409, message, options);
+    }
+}
+
+class TooManyRequestsError extends FnHttpError {
+    constructor(message?: string, options?: FnHttpErrorOptions) {
+        super(429, message, options);
+    }
+}
+
+/**
+ * A function that cannot start, e.g. because its config is invalid or its
+ * init failed. The process exits with `exitCode`, unless the function was
+ * started with an `onStartupError` option.
+ */
+class FnStartupError extends Error {
+    readonly cause?: unknown;
+
+    constructor(message: string, readonly exitCode: number, cause?: unknown) {
+        super(message);
+        this.name = new.target.name;
+        this.cause = cause;
+    }
+}
+
+function defaultErrorCode(status: number): string {
+    return (http.STATUS_CODES[status] || 'Error').toUpperCase().replace(/[^A-Z0-9]+/g, '_');
+}
+
+/**
+ * Describes a thrown value for the caller. Unexpected errors become a 502,
+ * their detail and stack are only included when `expose` is set.
+ */
+function toErrorInfo(error: unknown, expose: boolean): FnErrorInfo {
+    if (error instanceof FnHttpError) {
+        const info: FnErrorInfo = {
+            status: error.status,
+            code: error.code,
+            message: error.message
+        };
+        if (error.details !== undefined) {
+            info.details = error.details;
+        }
+        if (expose && error.cause !== undefined) {
+            info.detail = String(error.cause);
+        }
+        return info;
+    }
+
+    const info: FnErrorInfo = {
+        status: 502,
+        code: 'FUNCTION_ERROR',
+        message: fnFunctionExceptionMessage
+    };
+    if (expose) {
+        info.detail = String(error);
+        if (error instanceof Error && error.stack) {
+            info.stack = error.stack;
+        }
+    }
+    return info;
+}
+
+const jsonErrorFormatter: ErrorFormatter = (error) => {
+    const {status, message, code, ...rest} = error;
+    return {contentType: 'application/json', body: {message, code, ...rest}};
+};
+
+// RFC 7807 problem details
+const problemJsonErrorFormatter: ErrorFormatter = (error, ctx) => {
+    const body: { [key: string]: unknown } = {
+        type: 'about:blank',
+        title: http.STATUS_CODES[error.status] || 'Error',
+        status: error.status,
+        detail: error.message,
+        code: error.code
+    };
+    if (ctx.callID) {
+        body.instance = `urn:fn:call:${ctx.callID}`;
+    }
+    if (error.details !== undefined) {
+        body.details = error.details;
+    }
+    if (error.detail !== undefined) {
+        body.cause = error.detail;
+    }
+    if (error.stack !== undefined) {
+        body.stack = error.stack;
+    }
+    return {contentType: 'application/problem+json', body};
+};
+
+function getErrorFormatter(format: 'json' | 'problem+json' | ErrorFormatter | undefined): ErrorFormatter {
+    if (typeof format === 'function') {
+        return format;
+    }
+    return format === 'problem+json' ? problemJsonErrorFormatter : jsonErrorFormatter;
+}
+
+// Export public API
+export {
+    FnHttpError,
+    BadRequestError,
+    UnauthorizedError,
+    ForbiddenError,
+    NotFoundError,
+    ConflictError,
+    TooManyRequestsError,
+    FnStartupError,
+    toErrorInfo,
+    jsonErrorFormatter,
+    problemJsonErrorFormatter,
+    getErrorFormatter
+};
+
+// Type exports
+export type {
+    FnHttpErrorOptions,
+    FnErrorInfo,
+    FormattedError,
+    ErrorFormatter
+};
@@ -0,0 +1,317 @@
+import type {Context, FnHandler, FnSettings} from './fdk';
+import {FnHttpError} from './errors';
+
+// Type declarations
+type FnEventKind = 'oci-event' | 'log' | 'stream-message' | 'alarm' | 'unknown';
+
+/**
+ * An OCI Events service event, in its CloudEvents 0.1 or 1.0 form.
+ */
+interface OCIEvent<T = OCIEventData> {
+    eventType?: string;
+    eventID?: string;
+    eventTime?: string;
+    cloudEventsVersion?: string;
+    eventTypeVersion?: string;
+    specversion?: string;
+    type?: string;
+    id?: string;
+    time?: string;
+    source: string;
+    contentType?: string;
+    data: T;
+    [extension: string]: unknown;
+}
+
+interface OCIEventData {
+    compartmentId?: string;
+    compartmentName?: string;
+    resourceName?: string;
+    resourceId?: string;
+    availabilityDomain?: string;
+    additionalDetails?: { [key: string]: unknown };
+    freeformTags?: { [key: string]: string };
+    definedTags?: { [namespace: string]: { [key: string]: unknown } };
+    [key: string]: unknown;
+}
+
+// A message from OCI Streaming, as delivered by Service Connector Hub
+interface StreamMessage {
+    stream: string;
+    partition: string;
+    key: string | null;
+    value: string;
+    offset: number;
+    timestamp: number;
+}
+
+// A log entry from OCI Logging, as delivered by Service Connector Hub
+interface LogEntry {
+    id: string;
+    source: string;
+    specversion: string;
+    type: string;
+    time: string;
+    data: unknown;
+    oracle?: { [key: string]: unknown };
+}
+
+// A Monitoring alarm message, as delivered by Notifications
+interface AlarmNotification {
+    dedupeKey: string;
+    title: string;
+    body?: string;
+    type: string;
+    severity: string;
+    timestampEpochMillis: number;
+    alarmMetaData?: Array<{ [key: string]: unknown }>;
+    version?: number;
+}
+
+/**
+ * The metadata of the event being handled, also available as `ctx.event`.
+ */
+interface FnEventMetadata {
+    kind: FnEventKind;
+    id?: string;
+    type?: string;
+    source?: string;
+    time?: string;
+    compartmentId?: string;
+    resourceId?: string;
+    resourceName?: string;
+    // Position of the event in a Service Connector batch
+    index: number;
+    batchSize: number;
+    stream?: {
+        name: string;
+        partition: string;
+        offset: number;
+        key: string | null;
+    };
+}
+
+/**
+ * An event unwrapped from its envelope. `data` is the payload: the `data` of
+ * OCI events and log entries, the decoded value of stream messages and the
+ * alarm of Notifications messages.
+ */
+interface FnEvent<T = unknown> extends FnEventMetadata {
+    data: T;
+    raw: unknown;
+}
+
+type FnEventHandler<T = unknown, TSettings extends FnSettings = FnSettings> =
+    (event: FnEvent<T>, ctx: Context<TSettings>) => Promise<unknown> | unknown;
+
+interface EventOptions {
+    // Answer a batch with the failed items listed instead of failing the call
+    ignoreItemErrors?: boolean;
+}
+
+interface EventItemFailure {
+    index: number;
+    id?: string;
+    message: string;
+}
+
+interface EventBatchResult {
+    processed: number;
+    failed: EventItemFailure[];
+    results: unknown[];
+}
+
+/**
+ * Thrown when items of an event batch failed, so Service Connector Hub
+ * retries the batch. The failed items are listed in `details`.
+ */
+class EventBatchError extends FnHttpError {
+    constructor(readonly failures: EventItemFailure[], batchSize: number) {
+        super(502, `${failures.length} of ${batchSize} event(s) failed`, {
+            code: 'EVENT_BATCH_FAILED',
+            details: failures
+        });
+    }
+}
+
+function isOCIEvent(value: unknown): value is OCIEvent {
+    const v = value as { [key: string]: unknown };
+    return isObject(value) && typeof v.source === 'string' &&
+        ((typeof v.eventType === 'string' && typeof v.eventID === 'string') ||
+            (typeof v.specversion === 'string' && typeof v.type === 'string' && typeof v.id === 'string'));
+}
+
+function isLogEntry(value: unknown): value is LogEntry {
+    return isOCIEvent(value) && isObject((value as { [key: string]: unknown }).oracle);
+}
+
+function isStreamMessage(value: unknown): value is StreamMessage {
+    const v = value as { [key: string]: unknown };
+    return isObject(value) && typeof v.stream === 'string' && v.partition !== undefined &&
+        typeof v.value === 'string' && v.offset !== undefined;
+}
+
+function isAlarmNotification(value: unknown): value is AlarmNotification {
+    const v = value as { [key: string]: unknown };
+    return isObject(value) && typeof v.dedupeKey === 'string' && typeof v.title === 'string' &&
+        (Array.isArray(v.alarmMetaData) || typeof v.severity === 'string');
+}
+
+/**
+ * Decodes the value of a stream message: JSON if it parses, a string if it is
+ * text, the raw bytes otherwise.
+ */
+function decodeStreamValue(value: string): unknown {
+    const bytes = Buffer.from(value, 'base64');
+    const text = bytes.toString('utf8');
+    if (Buffer.from(text, 'utf8').equals(bytes)) {
+        try {
+            return JSON.parse(text);
+        } catch (e) {
+            return text;
+        }
+    }
+    return bytes;
+}
+
+/**
+ * Unwraps the events in a function's body: a single envelope or a batch
+ * delivered by Service Connector Hub.
+ */
+function decodeEvents(body: unknown): FnEvent[] {
+    const items = Array.isArray(body) ? body : [body];
+    return items.map((item, index) => decodeEvent(item, index, items.length));
+}
+
+function decodeEvent(item: unknown, index: number, batchSize: number): FnEvent {
+    if (isStreamMessage(item)) {
+        const partition = String(item.partition);
+        return {
+            kind: 'stream-message',
+            id: `${item.stream}/${partition}/${item.offset}`,
+            source: item.stream,
+            time: item.timestamp ? new Date(item.timestamp).toISOString() : undefined,
+            index,
+            batchSize,
+            stream: {
+                name: item.stream,
+                partition,
+                offset: Number(item.offset),
+                key: item.key ? Buffer.from(item.key, 'base64').toString('utf8') : null
+            },
+            data: decodeStreamValue(item.value),
+            raw: item
+        };
+    }
+
+    if (isOCIEvent(item)) {
+        const data = isObject(item.data) ? item.data as OCIEventData : {};
+        return {
+            kind: isLogEntry(item) ? 'log' : 'oci-event',
+            id: item.eventID || item.id,
+            type: item.eventType || item.type,
+            source: item.source,
+            time: item.eventTime || item.time,
+            compartmentId: stringOrUndefined(data.compartmentId),
+            resourceId: stringOrUndefined(data.resourceId),
+            resourceName: stringOrUndefined(data.resourceName),
+            index,
+            batchSize,
+            data: item.data,
+            raw: item
+        };
+    }
+
+    if (isAlarmNotification(item)) {
+        return {
+            kind: 'alarm',
+            id: item.dedupeKey,
+            type: item.type,
+            time: item.timestampEpochMillis ? new Date(item.timestampEpochMillis).toISOString() : undefined,
+            index,
+            batchSize,
+            data: item,
+            raw: item
+        };
+    }
+
+    return {kind: 'unknown', index, batchSize, data: item, raw: item};
+}
+
+/**
+ * Wraps an event handler as a function. A single event is passed through, its
+ * result or error is the function's. The items of a batch are handled in
+ * order; failed items are logged and, unless `ignoreItemErrors` is set, fail
+ * the call with an EventBatchError once all items have been tried.
+ */
+function eventHandler<T, TSettings extends FnSettings>(
+    fn: FnEventHandler<T, TSettings>,
+    options: EventOptions = {}
+): FnHandler<unknown, unknown, TSettings> {
+    return async (body, ctx) => {
+        const events = decodeEvents(body) as FnEvent<T>[];
+        if (!Array.isArray(body)) {
+            ctx.event = metadata(events[0]);
+            return fn(events[0], ctx);
+        }
+
+        const result: EventBatchResult = {processed: 0, failed: [], results: []};
+        for (const event of events) {
+            ctx.event = metadata(event);
+            try {
+                result.results.push(await fn(event, ctx));
+                result.processed++;
+            } catch (e) {
+                ctx.log.error('Event failed', {index: event.index, eventId: event.id, error: e});
+                result.failed.push({index: event.index, id: event.id, message: e instanceof Error ? e.message : String(e)});
+            }
+        }
+        ctx.event = undefined;
+
+        if (result.failed.length > 0 && !options.ignoreItemErrors) {
+            throw new EventBatchError(result.failed, events.length);
+        }
+        return result;
+    };
+}
+
+function metadata(event: FnEvent): FnEventMetadata {
+    const {data, raw, ...meta} = event;
+    return meta;
+}
+
+function isObject(value: unknown): value is { [key: string]: unknown } {
+    return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function stringOrUndefined(value: unknown): string | undefined {
+    return typeof value === 'string' ? value : undefined;
+}
+
+// Export public API
+export {
+    EventBatchError,
+    decodeEvents,
+    decodeStreamValue,
+    eventHandler,
+    isOCIEvent,
+    isLogEntry,
+    isStreamMessage,
+    isAlarmNotification
+};
+
+// Type exports
+export type {
+    AlarmNotification,
+    EventBatchResult,
+    EventItemFailure,
+    EventOptions,
+    FnEvent,
+    FnEventHandler,
+    FnEventKind,
+    FnEventMetadata,
+    LogEntry,
+    OCIEvent,
+    OCIEventData,
+    StreamMessage
+};
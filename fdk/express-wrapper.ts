@@ -1,19 +1,40 @@
 import express, {Application, Router} from "express";
 import http from "http";
 import url from "url";
-import {Readable} from "stream";
-import {Context, sendJSONError, sendResult} from "./fdk";
+import {EventEmitter} from "events";
+import {Readable, Writable} from "stream";
+import {Context, FnOptions, handleFunctionError, writeResponseHead} from "./fdk";
+import {startCompression} from "./compression";
 
-export interface ExpressResponse {
-    status: number;
-    headers: Record<string, string>;
-    body: Buffer;
-}
 export interface ExpressFrameworkOptions {
-    framework?: 'express';
-    inputMode?: 'buffer' | 'string' | 'json';
+    framework?: 'express' | 'koa' | 'fastify' | 'node' | (string & {});
+    inputMode?: 'buffer' | 'string' | 'json' | 'auto' | 'stream';
 }
 
+export type NodeRequestListener = (
+    req: http.IncomingMessage,
+    res: http.ServerResponse
+) => void | Promise<void>;
+
+type WriteCallback = (error?: Error | null) => void;
+type HeaderValue = number | string | string[];
+
+// Request headers Node keeps a single value for, see http.IncomingMessage#headers
+const singleValueHeaders: { [key: string]: boolean } = {
+    'age': true, 'authorization': true, 'content-length': true, 'content-type': true,
+    'etag': true, 'expires': true, 'from': true, 'host': true, 'if-modified-since': true,
+    'if-unmodified-since': true, 'last-modified': true, 'location': true,
+    'max-forwards': true, 'proxy-authorization': true, 'referer': true,
+    'retry-after': true, 'server': true, 'user-agent': true
+};
+
+// Headers that describe the framing of the Express response rather than its content
+const skipResponseHeaders: { [key: string]: boolean } = {
+    'content-length': true,
+    'transfer-encoding': true,
+    'connection': true
+};
+
 export function isExpressApp(handler: any): boolean {
     return handler instanceof Router || 'listen' in handler;
 }
@@ -22,40 +43,21 @@ export function isExpressApp(handler: any): boolean {
 export function handleExpressRequest(
     app: Application | Router,
     ctx: Context,
-    resp: http.ServerResponse
+    resp: http.ServerResponse,
+    options: FnOptions = {}
 ): void {
-    const body = ctx.body instanceof Buffer ? ctx.body : Buffer.from(String(ctx.body || ''));
-    const req = createExpressRequest(ctx, body);
-    const res = createExpressResponse();
-
-    let responseHandled = false;
-    // Add 404 handler as the last middleware
-    const express404Handler = () => {
-        if (!responseHandled) {
-            res.status(404).json({
-                error: 'Not Found',
-                message: `Route ${req.method} ${req.path} not found`
-            });
-            sendExpressResponse(res, ctx, resp);
-        }
-    };
-    const completeResponse = (result: ExpressResponse) => {
-        if (responseHandled) return;
-        responseHandled = true;
-        sendExpressResponse(result, ctx, resp);
-    };
+    const {req, res} = createNodeBridge(ctx, resp);
+    if (!('listen' in app)) {
+        addRouterRequestProperties(req);
+    }
 
+    let errorHandled = false;
     const handleError = (error: Error) => {
-        if (responseHandled) return;
-        responseHandled = true;
-        handleExpressError(error, resp);
+        if (errorHandled) return;
+        errorHandled = true;
+        handleFunctionError(error, ctx, resp, options);
     };
 
-    // Monitor both promise and normal completion
-    res.waitForFinish()
-        .then(completeResponse)
-        .catch(handleError);
-
     try {
         // Execute Express app
         (app as any)(req, res, (err?: any) => {
@@ -65,8 +67,11 @@ export function handleExpressRequest(
             }
 
             // If no middleware sent a response
-            if (!res._finished && !res.headersSent) {
-                express404Handler()
+            if (!res.finished && !res.headersSent) {
+                res.status(404).json({
+                    error: 'Not Found',
+                    message: `Route ${req.method} ${req.path} not found`
+                });
             }
         });
     } catch (error) {
@@ -74,142 +79,448 @@ export function handleExpressRequest(
     }
 }
 
-function createExpressRequest(ctx: Context, body: Buffer): express.Request {
+/**
+ * Runs a plain Node request listener, such as the one returned by Koa's
+ * `app.callback()`, against the emulated request and response.
+ */
+export function handleNodeRequest(
+    listener: NodeRequestListener,
+    ctx: Context,
+    resp: http.ServerResponse,
+    options: FnOptions = {}
+): void {
+    const {req, res} = createNodeBridge(ctx, resp);
+    try {
+        Promise.resolve(listener(req, res)).catch((error: Error) => handleFunctionError(error, ctx, resp, options));
+    } catch (error) {
+        handleFunctionError(error, ctx, resp, options);
+    }
+}
+
+/**
+ * Builds the emulated request and response pair a Node style framework is invoked with.
+ */
+export function createNodeBridge(ctx: Context, resp: http.ServerResponse): { req: express.Request; res: any } {
+    const body = ctx.body instanceof Readable || Buffer.isBuffer(ctx.body) ?
+        ctx.body : Buffer.from(String(ctx.body || ''));
+    const req = createExpressRequest(ctx, body);
+    const res = createExpressResponse(ctx, resp);
+    res.socket = res.connection = req.socket;
+    res.req = req;
+
+    // Surface the Fn deadline the way Node reports a client going away
+    ctx.signal.addEventListener('abort', () => req.emit('aborted'), {once: true});
+    return {req, res};
+}
+
+/**
+ * Maps a framework's status and headers onto the Fn response and writes its
+ * head. Returns the stream to write the body to: the response, or an encoder
+ * piped to it if the response is compressed. If the call was already answered,
+ * e.g. with a 504 at the deadline, the body is discarded.
+ */
+export function writeGatewayHead(
+    ctx: Context,
+    resp: http.ServerResponse,
+    statusCode: number,
+    headers: http.OutgoingHttpHeaders
+): Writable {
+    if (isAnswered(ctx, resp)) {
+        return discardingStream();
+    }
+    ctx.httpGateway.statusCode = statusCode;
+    let contentLength: number | undefined;
+    for (const name of Object.keys(headers)) {
+        const value = headers[name];
+        if (name.toLowerCase() === "content-length" && value !== undefined) {
+            contentLength = Number(value);
+        }
+        if (value !== undefined && !skipResponseHeaders[name.toLowerCase()]) {
+            ctx.httpGateway.setResponseHeader(name, ...headerValues(value));
+        }
+    }
+    const encoder = startCompression(ctx, contentLength);
+    writeResponseHead(ctx, resp);
+    if (!encoder) {
+        return resp;
+    }
+    encoder.pipe(resp);
+    return encoder;
+}
+
+function isAnswered(ctx: Context, resp: http.ServerResponse): boolean {
+    return resp.headersSent || ctx.signal.aborted;
+}
+
+function discardingStream(): Writable {
+    return new Writable({write: (chunk, encoding, callback) => callback()});
+}
+
+function createExpressRequest(ctx: Context, body: Readable | Buffer): express.Request {
     const requestURL = ctx.httpGateway.requestURL || '/';
     const parsedUrl = url.parse(requestURL, true);
-    const req = Object.assign(new Readable(), {
-        method: ctx.httpGateway.method || 'GET',
-        url: parsedUrl.pathname || '/',
-        originalUrl: requestURL,
-        query: parsedUrl.query,
-        path: parsedUrl.pathname || '/',
-        headers: ctx.headers,
-        connection: {},
+    const path = parsedUrl.path || '/';
+    const headers = clientHeaders(ctx, body);
+    const protocol = parsedUrl.protocol ? parsedUrl.protocol.replace(':', '') :
+        firstHeaderValue(headers['x-forwarded-proto']) || 'http';
+    if (parsedUrl.host && !headers.host) {
+        headers.host = parsedUrl.host;
+    }
+    const socket = createSocketStub(clientAddress(headers), protocol === 'https');
+
+    // Express swaps the request prototype, so the body is fed with push() rather than pipe()
+    const source = body instanceof Readable ? body : null;
+    const req = Object.assign(new Readable({read: () => source?.resume()}), {
+        method: (ctx.httpGateway.method || 'GET').toUpperCase(),
+        url: path,
+        originalUrl: path,
+        headers,
+        rawHeaders: rawHeaders(headers),
+        trailers: {},
+        rawTrailers: [],
+        socket,
+        connection: socket,
         httpVersion: '1.1',
+        httpVersionMajor: 1,
+        httpVersionMinor: 1,
+        complete: false,
+        aborted: false
     }) as unknown as express.Request;
 
-    req.push(body);
-    req.push(null);
+    if (source) {
+        source.on('data', (chunk: Buffer) => {
+            if (!req.push(chunk)) {
+                source.pause();
+            }
+        });
+        source.on('end', () => {
+            req.complete = true;
+            req.push(null);
+        });
+        source.on('error', (e: Error) => req.destroy(e));
+    } else {
+        req.complete = true;
+        req.push(body);
+        req.push(null);
+    }
     return req;
 }
 
-function createExpressResponse(): any {
-    let _resolve: (value: ExpressResponse) => void = () => {};
-    let _reject: (reason?: any) => void = () => {};
-    const _promise = new Promise<ExpressResponse>((resolve, reject) => {
-        _resolve = resolve;
-        _reject = reject;
+// A bare Router does not install the Express request getters, so provide the common ones
+function addRouterRequestProperties(req: express.Request): void {
+    Object.defineProperties(req, {
+        path: {get: () => url.parse(req.url).pathname || '/', configurable: true},
+        query: {get: () => url.parse(req.url, true).query, configurable: true}
+    });
+}
+
+// The client headers as Node would present them: lowercased names, duplicates joined.
+// Gateway calls carry them as Fn-Http-H-*, direct invocations as plain headers.
+function clientHeaders(ctx: Context, body: Readable | Buffer): http.IncomingHttpHeaders {
+    const gatewayHeaders = ctx.httpGateway.headers;
+    const isGateway = Object.keys(gatewayHeaders).length > 0 || !!ctx.httpGateway.method;
+    const source = isGateway ? gatewayHeaders : ctx.headers;
+    const headers: http.IncomingHttpHeaders = {};
+
+    for (const key of Object.keys(source)) {
+        const name = key.toLowerCase();
+        if (!isGateway && name.startsWith('fn-')) {
+            continue;
+        }
+        const values = source[key];
+        if (name === 'set-cookie') {
+            headers[name] = [...values];
+        } else if (name === 'cookie') {
+            headers[name] = values.join('; ');
+        } else if (singleValueHeaders[name]) {
+            headers[name] = values[0];
+        } else {
+            headers[name] = values.join(', ');
+        }
+    }
+
+    // Describe the body actually delivered to the function rather than the one the client sent
+    delete headers['content-length'];
+    delete headers['transfer-encoding'];
+    const contentLength = parseInt(ctx.getHeader('Content-Length') || '', 10);
+    if (Buffer.isBuffer(body)) {
+        if (body.length > 0) {
+            headers['content-length'] = String(body.length);
+        }
+    } else if (!isNaN(contentLength)) {
+        if (contentLength > 0) {
+            headers['content-length'] = String(contentLength);
+        }
+    } else {
+        headers['transfer-encoding'] = 'chunked';
+    }
+    if (!headers['content-type'] && ctx.contentType) {
+        headers['content-type'] = ctx.contentType;
+    }
+    return headers;
+}
+
+function rawHeaders(headers: http.IncomingHttpHeaders): string[] {
+    const raw: string[] = [];
+    for (const key of Object.keys(headers)) {
+        const value = headers[key];
+        for (const v of Array.isArray(value) ? value : [value]) {
+            if (v !== undefined) {
+                raw.push(key, v);
+            }
+        }
+    }
+    return raw;
+}
+
+function firstHeaderValue(value: string | string[] | undefined): string | undefined {
+    const v = Array.isArray(value) ? value[0] : value;
+    return v ? v.split(',')[0].trim() : undefined;
+}
+
+function clientAddress(headers: http.IncomingHttpHeaders): string {
+    return firstHeaderValue(headers['x-forwarded-for']) ||
+        firstHeaderValue(headers['x-real-ip']) ||
+        '127.0.0.1';
+}
+
+// Enough of a net.Socket for middleware that inspects the connection (cors, helmet, multer, ...)
+function createSocketStub(remoteAddress: string, encrypted: boolean): any {
+    const family = remoteAddress.includes(':') ? 'IPv6' : 'IPv4';
+    return Object.assign(new EventEmitter(), {
+        remoteAddress,
+        remoteFamily: family,
+        remotePort: 0,
+        localAddress: family === 'IPv6' ? '::1' : '127.0.0.1',
+        localPort: 0,
+        encrypted: encrypted || undefined,
+        readable: true,
+        writable: true,
+        destroyed: false,
+        address: () => ({address: remoteAddress, family, port: 0}),
+        setTimeout(): any { return this; },
+        setNoDelay(): any { return this; },
+        setKeepAlive(): any { return this; },
+        ref(): any { return this; },
+        unref(): any { return this; },
+        destroy(): any { return this; }
     });
+}
+
+// Express replaces the prototype of the response with its own, so everything
+// the bridge relies on is defined as own properties of the object.
+function createExpressResponse(ctx: Context, resp: http.ServerResponse): any {
+    // Keyed by lowercased name, keeping the name as it was first set
+    const headers = new Map<string, { name: string; value: HeaderValue }>();
+
+    const assertHeadersNotSent = (action: string) => {
+        if (res.headersSent) {
+            throw Object.assign(new Error(`Cannot ${action} headers after they are sent to the client`), {
+                code: 'ERR_HTTP_HEADERS_SENT'
+            });
+        }
+    };
+
+    // Where the body is written, an encoder once the head decided to compress
+    let out: Writable = resp;
+    // Set once output comes after the call was answered, e.g. by a deadline timeout
+    let late = false;
+    let closed = false;
+    const emitClose = () => {
+        if (closed) return;
+        closed = true;
+        res.emit('close');
+    };
 
-    const res: any = {
-        _headers: {} as Record<string, string>,
-        _status: 200,
-        _body: [] as Buffer[],
-        _finished: false,
-        _promise,
-        _resolve,
-        _reject,
-
-        setHeader(key: string, value: string): void {
-            this._headers[key.toLowerCase()] = value;
+    const res: any = Object.assign(new EventEmitter(), {
+        statusCode: 200,
+        statusMessage: '',
+        headersSent: false,
+        finished: false,
+        writable: true,
+        writableEnded: false,
+        writableFinished: false,
+        sendDate: false,
+
+        setHeader(name: string, value: HeaderValue): any {
+            assertHeadersNotSent('set');
+            headers.set(name.toLowerCase(), {name, value});
+            return this;
         },
 
-        getHeader(key: string): string | undefined {
-            return this._headers[key.toLowerCase()];
+        appendHeader(name: string, value: string | string[]): any {
+            assertHeadersNotSent('append');
+            const existing = headers.get(name.toLowerCase());
+            const values = existing ? headerValues(existing.value) : [];
+            headers.set(name.toLowerCase(), {
+                name: existing ? existing.name : name,
+                value: values.concat(value)
+            });
+            return this;
         },
 
-        writeHead(status: number, headers?: Record<string, string>): void {
-            this._status = status;
-            if (headers) {
-                Object.keys(headers).forEach(key => {
-                    this._headers[key.toLowerCase()] = headers[key];
-                });
-            }
+        getHeader(name: string): HeaderValue | undefined {
+            return headers.get(name.toLowerCase())?.value;
         },
 
-        write(chunk: Buffer | string): void {
-            this._body.push(Buffer.from(chunk));
+        getHeaders(): http.OutgoingHttpHeaders {
+            const result: http.OutgoingHttpHeaders = Object.create(null);
+            headers.forEach((header, key) => {
+                result[key] = header.value;
+            });
+            return result;
+        },
+
+        getHeaderNames(): string[] {
+            return Array.from(headers.keys());
+        },
+
+        hasHeader(name: string): boolean {
+            return headers.has(name.toLowerCase());
+        },
+
+        removeHeader(name: string): void {
+            assertHeadersNotSent('remove');
+            headers.delete(name.toLowerCase());
+        },
+
+        writeHead(
+            status: number,
+            reason?: string | http.OutgoingHttpHeaders | HeaderValue[],
+            extra?: http.OutgoingHttpHeaders | HeaderValue[]
+        ): any {
+            if (typeof reason === 'string') {
+                this.statusMessage = reason;
+            } else {
+                extra = reason;
+            }
+            this.statusCode = status;
+            if (Array.isArray(extra)) {
+                // Raw [name, value, name, value, ...] form
+                for (let i = 0; i + 1 < extra.length; i += 2) {
+                    this.appendHeader(String(extra[i]), headerValues(extra[i + 1]));
+                }
+            } else if (extra) {
+                for (const key of Object.keys(extra)) {
+                    const value = extra[key];
+                    if (value !== undefined) {
+                        this.setHeader(key, value);
+                    }
+                }
+            }
+            this.flushHeaders();
+            return this;
         },
 
-        end(chunk?: Buffer | string): void {
-            if (chunk) {
-                this.write(chunk);
+        // Maps the Express status and headers onto the Fn response as soon as the body starts
+        flushHeaders(): void {
+            if (this.headersSent) return;
+            this.headersSent = true;
+            this.statusMessage = this.statusMessage || http.STATUS_CODES[this.statusCode] || '';
+            if (isAnswered(ctx, resp)) {
+                late = true;
+                return;
             }
-            this._finished = true;
-            this._resolve({
-                status: this._status,
-                headers: this._headers,
-                body: Buffer.concat(this._body)
+
+            const outgoing: http.OutgoingHttpHeaders = {};
+            headers.forEach((header) => {
+                outgoing[header.name] = header.value;
             });
+            out = writeGatewayHead(ctx, resp, this.statusCode, outgoing);
+            if (out !== resp) {
+                out.on("drain", () => res.emit("drain"));
+            }
         },
 
-        waitForFinish(): Promise<ExpressResponse> {
-            if (this._finished) {
-                return Promise.resolve({
-                    status: this._status,
-                    headers: this._headers,
-                    body: Buffer.concat(this._body)
-                });
+        write(chunk: Buffer | Uint8Array | string, encoding?: BufferEncoding | WriteCallback, cb?: WriteCallback): boolean {
+            if (this.writableEnded) {
+                throw Object.assign(new Error('write after end'), {code: 'ERR_STREAM_WRITE_AFTER_END'});
             }
-            return this._promise;
-        }
-    };
+            this.flushHeaders();
+            if (late || ctx.signal.aborted) {
+                late = true;
+                const callback = typeof encoding === 'function' ? encoding : cb;
+                if (callback) process.nextTick(callback);
+                return true;
+            }
+            if (typeof encoding === 'function') {
+                return out.write(chunk, encoding);
+            }
+            return out.write(chunk, encoding || 'utf8', cb);
+        },
 
-    return res;
-}
+        end(
+            chunk?: Buffer | Uint8Array | string | WriteCallback,
+            encoding?: BufferEncoding | WriteCallback,
+            cb?: WriteCallback
+        ): any {
+            if (typeof chunk === 'function') {
+                cb = chunk;
+                chunk = undefined;
+            } else if (typeof encoding === 'function') {
+                cb = encoding;
+                encoding = undefined;
+            }
+            if (this.writableEnded) return this;
 
-function sendExpressResponse(
-    result: ExpressResponse,
-    ctx: Context,
-    resp: http.ServerResponse
-): void {
-    // Check if response is JSON
-    const contentType = result.headers['content-type']?.[0] || '';
-    const isJson = contentType.includes('application/json') ||
-        (typeof result.body === 'object');
-
-    // Set status code if provided
-    if (result.status) {
-        ctx.setResponseHeader('Fn-Http-Status', result.status.toString());
-    }
+            if (chunk != null && chunk.length > 0) {
+                this.write(chunk, encoding);
+            }
+            this.flushHeaders();
+            this.writableEnded = true;
+            this.finished = true;
+            const onFinished = () => {
+                res.writableFinished = true;
+                res.emit('finish');
+                emitClose();
+                if (cb) cb();
+            };
+            if (late || ctx.signal.aborted) {
+                // The call was answered without this output, the response is already ended
+                late = true;
+                if (out !== resp) {
+                    out.destroy();
+                }
+                process.nextTick(onFinished);
+            } else if (out === resp) {
+                resp.end(onFinished);
+            } else {
+                // The encoder ends the response once it is flushed
+                resp.once("finish", onFinished);
+                out.end();
+            }
+            return this;
+        },
 
-    // Set headers
-    for (const [key, value] of Object.entries(result.headers)) {
-        if (key.toLowerCase() !== 'content-length') { // Skip content-length
-            ctx.setResponseHeader(`Fn-Http-H-${key}`, value);
-        }
-    }
+        cork(): void {
+            resp.cork();
+        },
 
-    // Handle JSON responses properly
-    if (isJson) {
-        let jsonBody: any;
-        if (Buffer.isBuffer(result.body)) {
-            // Convert Buffer to JSON
-            jsonBody = JSON.parse(result.body.toString());
-        } else if (typeof result.body === 'object') {
-            // Already JSON object
-            jsonBody = result.body;
-        } else {
-            // String that needs parsing
-            jsonBody = JSON.parse(String(result.body));
-        }
+        uncork(): void {
+            resp.uncork();
+        },
 
-        ctx.responseContentType = 'application/json';
-        sendResult(ctx, resp, jsonBody);
-    } else {
-        // Non-JSON response
-        ctx.responseContentType = contentType || 'application/octet-stream';
-        sendResult(ctx, resp, result.body);
-    }
-}
+        setTimeout(msecs: number, callback?: () => void): any {
+            if (callback) {
+                res.once('timeout', callback);
+            }
+            return this;
+        },
 
-function handleExpressError(
-    error: Error,
-    resp: http.ServerResponse
-): void {
-    console.error('Express error:', error);
-    sendJSONError(resp, 500, {
-        message: 'Internal Server Error',
-        detail: error.toString()
+        addTrailers(): void {},
+
+        writeContinue(): void {}
+    });
+
+    resp.on('drain', () => res.emit('drain'));
+    resp.on('close', () => {
+        if (!res.writableFinished) {
+            emitClose();
+        }
     });
+    return res;
+}
+
+function headerValues(value: HeaderValue): string[] {
+    return Array.isArray(value) ? value.map(String) : [String(value)];
 }
@@ -1,8 +1,102 @@
 import fs from 'fs';
 import http from 'http';
 import path from 'path';
-import  { Application, Router } from 'express';
-import {ExpressFrameworkOptions, handleExpressRequest, isExpressApp} from './express-wrapper';
+import {ParsedUrlQuery} from 'querystring';
+import url from 'url';
+import {ExpressFrameworkOptions} from './express-wrapper';
+import {CompressionOptions, ContentEncoding, startCompression} from './compression';
+import {
+    FileIdempotencyStore,
+    FileIdempotencyStoreOptions,
+    IdempotencyLayer,
+    IdempotencyOptions,
+    IdempotencyStore,
+    MemoryIdempotencyStore,
+    StoredResponse
+} from './idempotency';
+import {BodyParserOptions, bodyKind, createBodyDecoder, MultipartBody, MultipartOptions, UploadedFile} from './body';
+import {ConfigDefinition, ConfigError, ConfigSpec, ConfigValues, defineConfig} from './config';
+import {
+    detectFrameworkAdapter,
+    FrameworkAdapter,
+    FrameworkHandler,
+    getFrameworkAdapter,
+    nodeListener,
+    registerFrameworkAdapter
+} from './frameworks';
+import {
+    BadRequestError,
+    ConflictError,
+    ErrorFormatter,
+    FnHttpError,
+    FnHttpErrorOptions,
+    FnStartupError,
+    ForbiddenError,
+    getErrorFormatter,
+    NotFoundError,
+    toErrorInfo,
+    TooManyRequestsError,
+    UnauthorizedError
+} from './errors';
+import {jsonSchema, OutputValidationError, validate, validateInput, Validator} from './schema';
+import {
+    FnClient,
+    FnClientOptions,
+    FnInvokeError,
+    FunctionFailedError,
+    FunctionNotFoundError,
+    FunctionTarget,
+    FunctionThrottledError,
+    FunctionTimeoutError,
+    InvokeOptions,
+    InvokeResponse
+} from './invoke';
+import {
+    HttpBody,
+    HttpClient,
+    HttpClientError,
+    HttpClientOptions,
+    HttpRequestOptions,
+    HttpResponse,
+    RequestSigner,
+    SignableRequest
+} from './http-client';
+import {createContextLogger, log, Logger, LogLevel, runWithContext} from './logger';
+import {compose, FnMiddleware, Next, runMiddleware} from './middleware';
+import {CookieOptions, FileResponseOptions, FnResponse, FnResponseInit, Representations} from './response';
+import {createRouter, RouteHandler, RouteMatch, RouteOptions, Router, RouterOptions} from './router';
+import {CloudEvent, createCloudEvent, decodeCloudEvent, encodeCloudEventResponse} from './cloudevent';
+import {handleDefault, handleJSON} from './stdio';
+import {
+    AlarmNotification,
+    decodeEvents,
+    EventBatchError,
+    EventBatchResult,
+    eventHandler,
+    EventOptions,
+    FnEvent,
+    FnEventHandler,
+    FnEventMetadata,
+    LogEntry,
+    OCIEvent,
+    OCIEventData,
+    StreamMessage
+} from './events';
+import {
+    Counter,
+    Gauge,
+    Histogram,
+    LogMetricsExporter,
+    metrics,
+    MetricsExporter,
+    MetricsOptions,
+    MetricsRegistry,
+    MetricSnapshot,
+    OCIMonitoringExporter,
+    OCIMonitoringExporterOptions,
+    startInvocation
+} from './metrics';
+import {flushZipkinExporters, getZipkinExporter, randomId, Span, SpanKind} from './tracing';
 
 // Type declarations
 interface FnHeaders {
@@ -13,11 +107,55 @@ interface FnConfig {
     [key: string]: string | undefined;
 }
 
-type FnHandler = (body: unknown, context: Context) => Promise<unknown> | unknown;
+interface FnSettings {
+    readonly [key: string]: unknown;
+}
+
+type FnHandler<TBody = unknown, TResult = unknown, TSettings extends FnSettings = FnSettings, TState = unknown> =
+    (body: TBody, context: Context<TSettings, TState>) => Promise<TResult> | TResult;
+
+type ShutdownHook = () => Promise<void> | void;
+
+type AfterResponseHook = () => Promise<void> | void;
+
+interface FnOptions<TBody = unknown, TResult = unknown, TSettings extends FnSettings = FnSettings, TState = unknown>
+    extends ExpressFrameworkOptions {
+    input?: Validator<TBody>;
+    output?: Validator<TResult>;
+    config?: ConfigDefinition<TSettings>;
+    // Runs before the function accepts calls, the result is shared by all calls as ctx.state
+    init?: (settings: TSettings) => Promise<TState> | TState;
+    // Runs on shutdown once in-flight calls have drained
+    dispose?: (state: TState) => Promise<void> | void;
+    middleware?: FnMiddleware<TSettings>[];
+    deadlineGraceMs?: number;
+    shutdownTimeoutMs?: number;
+    handleSignals?: boolean;
+    maxBodySize?: number;
+    errorFormat?: 'json' | 'problem+json' | ErrorFormatter;
+    // Include the detail and stack of unexpected errors in responses, only meant for development
+    exposeErrors?: boolean;
+    metrics?: MetricsOptions;
+    bodyParser?: BodyParserOptions;
+    compression?: boolean | CompressionOptions;
+    idempotency?: boolean | IdempotencyOptions;
+    // Called instead of exiting when the function cannot start, e.g. by a test harness
+    onStartupError?: (error: FnStartupError) => void;
+}
 
 // Constants
-const fnFunctionExceptionMessage = 'Exception in function, consult logs for details';
 const fnFunctionBadRequestErrorMessage = 'Bad request';
+const fnFunctionTimeoutMessage = 'Function timed out';
+const fnFunctionShuttingDownMessage = 'Function is shutting down';
+const fnFunctionPayloadTooLargeMessage = 'Payload too large';
+const defaultDeadlineGraceMs = 200;
+const defaultShutdownTimeoutMs = 10000;
+// Exporters whose backend is unreachable must not keep a stopping function alive
+const shutdownFlushTimeoutMs = 5000;
+// Longer timer delays overflow and fire at once, deadlines further off are not enforced
+export const maxTimerDelayMs = 2 ** 31 - 1;
+const shutdownSignals: NodeJS.Signals[] = ['SIGTERM', 'SIGINT'];
+const runAfterResponseHooks = Symbol('fdk.runAfterResponseHooks');
 const runtimeVersion = String(process.version);
 const fdkVersion = `fdk-node/${require('../package.json').version} (njsv=${runtimeVersion})`;
 const runtimeTag = `node/${runtimeVersion.substr(1, runtimeVersion.length - 1)}`;
@@ -32,7 +170,11 @@ const skipHeaders : { [key: string]: boolean } = {
 
 // FnResult classes
 abstract class FnResult {
-    abstract writeResult(ctx: Context, resp: http.ServerResponse): Promise<void> | void;
+    // The size of the body, if known before it is written
+    readonly size?: number;
+
+    // Writes the body to `out`: the response, an encoder in front of it, or a buffer for the stdio formats
+    abstract writeResult(ctx: Context, out: NodeJS.WritableStream): Promise<void> | void;
 }
 
 class StreamResult extends FnResult {
@@ -40,9 +182,9 @@ class StreamResult extends FnResult {
         super();
     }
 
-    writeResult(ctx: Context, resp: http.ServerResponse): Promise<void> {
+    writeResult(ctx: Context, out: NodeJS.WritableStream): Promise<void> {
         return new Promise((resolve, reject) => {
-            this.stream.pipe(resp);
+            this.stream.pipe(out);
             this.stream.on('end', resolve);
             this.stream.on('error', reject);
         });
@@ -50,12 +192,15 @@ class StreamResult extends FnResult {
 }
 
 class RawResult extends FnResult {
+    readonly size: number;
+
     constructor(private data: Buffer | string) {
         super();
+        this.size = Buffer.byteLength(data);
     }
 
-    writeResult(ctx: Context, resp: http.ServerResponse): void {
-        resp.write(this.data);
+    writeResult(ctx: Context, out: NodeJS.WritableStream): void {
+        out.write(this.data);
     }
 }
 
@@ -63,6 +208,8 @@ class RawResult extends FnResult {
 abstract class InputHandler {
     abstract pushData(data: Buffer | string): void;
     abstract getBody(): unknown;
+    // Releases what the body holds, e.g. temporary files, once the response is sent
+    dispose?(): void;
 }
 
 class BufferInputHandler extends InputHandler {
@@ -80,14 +227,25 @@ class BufferInputHandler extends InputHandler {
 class JSONInputHandler extends InputHandler {
     private str = '';
 
+    // Strict handlers reject invalid JSON instead of passing the body as a string
+    constructor(private strict = false) {
+        super();
+    }
+
     pushData(data: Buffer | string): void {
         this.str += data.toString();
     }
 
     getBody(): unknown {
+        if (this.strict && this.str.trim() === '') {
+            return undefined;
+        }
         try {
             return JSON.parse(this.str);
         } catch (e) {
+            if (this.strict) {
+                throw new BadRequestError(`Invalid JSON body: ${(e as Error).message}`, {code: 'INVALID_JSON', cause: e});
+            }
             return this.str;
         }
     }
@@ -117,6 +275,17 @@ class HTTPGatewayContext {
         return this.ctx.getHeader('Fn-Http-Method') || '';
     }
 
+    /**
+     * The path of the request URL, without the query string.
+     */
+    get path(): string {
+        return url.parse(this.requestURL || '/').pathname || '/';
+    }
+
+    get query(): ParsedUrlQuery {
+        return url.parse(this.requestURL || '/', true).query;
+    }
+
     get headers(): FnHeaders {
         const headers: FnHeaders = {};
         for (const key in this.ctx.headers) {
@@ -171,6 +340,7 @@ class TracingContext {
     sampled: boolean;
     flags: string | null;
     serviceName: string;
+    private serverSpan?: Span;
 
     constructor(private ctx: Context) {
         this.isEnabled = parseInt(ctx.config.OCI_TRACING_ENABLED || '0') === 1;
@@ -182,16 +352,69 @@ class TracingContext {
         this.flags = ctx.getHeader('X-B3-Flags');
         this.serviceName = `${ctx.appName}::${ctx.fnName}`.toLowerCase();
     }
+
+    /**
+     * The server span covering this invocation. It continues the trace from
+     * the B3 headers, or starts a new trace if there are none.
+     */
+    get span(): Span {
+        if (!this.serverSpan) {
+            const exporting = this.isEnabled && !!this.traceCollectorUrl;
+            this.serverSpan = new Span({
+                name: this.serviceName,
+                kind: 'SERVER',
+                serviceName: this.serviceName,
+                traceId: this.traceId || randomId(16),
+                id: this.spanId || undefined,
+                parentId: this.parentSpanId,
+                sampled: this.sampled || !this.traceId,
+                exporter: exporting ? getZipkinExporter(this.traceCollectorUrl!) : undefined
+            });
+        }
+        return this.serverSpan;
+    }
+
+    /**
+     * Starts a child span of the invocation, call `end()` on it once the work is done.
+     */
+    startSpan(name: string, kind?: SpanKind): Span {
+        return this.span.startChild(name, kind);
+    }
+
+    /**
+     * Headers to add to an outbound request so the callee joins this trace.
+     */
+    propagationHeaders(span: Span = this.span): { [key: string]: string } {
+        return span.propagationHeaders();
+    }
 }
 
-class Context {
+class Context<TSettings extends FnSettings = FnSettings, TState = unknown> {
     responseHeaders: FnHeaders = {};
+    // True for the first call handled by this function instance, set by the format serving the call
+    coldStart = false;
     responseContentType?: string;
-
+    // The event being handled by a handle.events() function
+    event?: FnEventMetadata;
+    // How gateway responses are compressed, set from the function's options
+    compression: CompressionOptions | false = false;
+    private tracing?: TracingContext;
+    private logger?: Logger;
+    private httpClient?: HttpClient;
+    private afterResponseHooks: AfterResponseHook[] = [];
+
+    /**
+     * `config` holds the raw function config, `settings` the values loaded
+     * from the config definition passed to handle(), if any, and `state` the
+     * result of its init function.
+     */
     constructor(
         public config: FnConfig,
         public body: unknown,
-        public headers: FnHeaders
+        public headers: FnHeaders,
+        public signal: AbortSignal = new AbortController().signal,
+        public settings: TSettings = {} as TSettings,
+        public state: TState = undefined as TState
     ) {}
 
     get deadline(): Date | null {
@@ -228,13 +451,62 @@ class Context {
     }
 
     get tracingContext(): TracingContext {
-        return new TracingContext(this);
+        if (!this.tracing) {
+            this.tracing = new TracingContext(this);
+        }
+        return this.tracing;
+    }
+
+    /**
+     * A logger whose lines are correlated with this invocation.
+     */
+    get log(): Logger {
+        if (!this.logger) {
+            this.logger = createContextLogger(this);
+        }
+        return this.logger;
+    }
+
+    /**
+     * The registry for custom counters, gauges and histograms.
+     */
+    get metrics(): MetricsRegistry {
+        return metrics;
+    }
+
+    /**
+     * A client for outbound HTTP calls that joins this invocation's trace and
+     * respects its deadline.
+     */
+    get http(): HttpClient {
+        if (!this.httpClient) {
+            this.httpClient = new HttpClient(this);
+        }
+        return this.httpClient;
     }
 
     get httpGateway(): HTTPGatewayContext {
         return new HTTPGatewayContext(this);
     }
 
+    /**
+     * Registers a hook that runs once the response has been sent or the
+     * connection dropped, e.g. to record metrics or release resources.
+     */
+    afterResponse(hook: AfterResponseHook): void {
+        this.afterResponseHooks.push(hook);
+    }
+
+    async [runAfterResponseHooks](): Promise<void> {
+        for (const hook of this.afterResponseHooks) {
+            try {
+                await hook();
+            } catch (e) {
+                log.error('After response hook failed', {error: e});
+            }
+        }
+    }
+
     getAllHeaderValues(key: string): string[] {
         const v = this.headers[this.canonHeader(key)];
         return v ? [...v] : [];
@@ -272,42 +544,107 @@ class Context {
     }
 }
 
+const shutdownHooks: ShutdownHook[] = [];
+
 // Main FDK implementation
+export function handle<TBody = unknown, TResult = unknown, TSettings extends FnSettings = FnSettings, TState = unknown>(
+    handler: FnHandler<TBody, TResult, TSettings, TState>,
+    options?: FnOptions<TBody, TResult, TSettings, TState>
+): () => Promise<void>;
+export function handle(handler: FrameworkHandler, options?: FnOptions): () => Promise<void>;
 export function handle(
-    handler: FnHandler | Application | Router,
-    options: ExpressFrameworkOptions = {}
-): () => void {
+    handler: FnHandler | FrameworkHandler,
+    options: FnOptions = {}
+): () => Promise<void> {
     const fnFormat = process.env.FN_FORMAT || '';
 
-    if (isExpressApp(handler)) {
-        options.framework = 'express';
-        options.inputMode = 'buffer';
+    const adapter = options.framework ? getFrameworkAdapter(options.framework) : detectFrameworkAdapter(handler);
+    if (options.framework && !adapter) {
+        throw failStartup(options, new FnStartupError(`Unsupported framework: ${options.framework}`, 2));
+    }
+    if (adapter) {
+        options.framework = adapter.name;
+        options.inputMode = 'stream';
+    }
+
+    const format = fnFormat.toLowerCase();
+    if (adapter && format !== 'http-stream') {
+        throw failStartup(options, new FnStartupError(
+            `The ${adapter.name} framework is only supported with the http-stream format, not ${fnFormat || 'default'}`, 2));
     }
 
-    switch (fnFormat.toLowerCase()) {
+    if (options.metrics?.exporters) {
+        metrics.setExporters(options.metrics.exporters, options.metrics.intervalMs);
+    }
+
+    switch (format) {
         case 'http-stream':
-            return handleHTTPStream(handler, options);
+            return handleHTTPStream(handler, options, format);
+        case 'cloudevent':
+            // Events are decoded from the whole body, the transport is the same as http-stream
+            return handleHTTPStream(handler, {...options, inputMode: 'buffer'}, format);
+        case '':
+        case 'default':
+            return handleDefault(handler as FnHandler, options);
+        case 'json':
+            return handleJSON(handler as FnHandler, options);
         default:
-            console.error(`Unsupported format: ${fnFormat}`);
-            process.exit(2);
+            throw failStartup(options, new FnStartupError(
+                `Unsupported format: ${fnFormat}, expected http-stream, cloudevent, json or default`, 2));
     }
 }
 
+/**
+ * Handles OCI Events, Notifications and Service Connector Hub deliveries: the
+ * envelopes are unwrapped and `fn` is called once per event.
+ */
+handle.events = function events<T = unknown, TSettings extends FnSettings = FnSettings>(
+    fn: FnEventHandler<T, TSettings>,
+    options: FnOptions<unknown, unknown, TSettings> & EventOptions = {}
+): () => Promise<void> {
+    return handle(eventHandler(fn, options), options);
+};
 
+/**
+ * Registers a hook that runs when the function shuts down, after in-flight
+ * calls have drained. Returns a function that unregisters the hook.
+ */
+export function onShutdown(hook: ShutdownHook): () => void {
+    shutdownHooks.push(hook);
+    return () => {
+        const idx = shutdownHooks.indexOf(hook);
+        if (idx >= 0) {
+            shutdownHooks.splice(idx, 1);
+        }
+    };
+}
 
 function handleHTTPStream(
-    handler: FnHandler | Application | Router,
-    options: ExpressFrameworkOptions
-): () => void {
+    handler: FnHandler | FrameworkHandler,
+    options: FnOptions,
+    format: 'http-stream' | 'cloudevent'
+): () => Promise<void> {
     const listenPort = process.env.FN_LISTENER;
     const inputMode = options.inputMode || 'json';
-    const framework = options.framework;
+    const adapter: FrameworkAdapter | undefined = options.framework ?
+        getFrameworkAdapter(options.framework) : undefined;
+    const deadlineGraceMs = options.deadlineGraceMs ?? defaultDeadlineGraceMs;
+    const shutdownTimeoutMs = options.shutdownTimeoutMs ?? defaultShutdownTimeoutMs;
+    const maxBodySize = options.maxBodySize;
+    const compression = options.compression === true ? {} : options.compression || false;
+    const idempotency = options.idempotency ?
+        new IdempotencyLayer(options.idempotency === true ? {} : options.idempotency) : null;
 
     if (!listenPort || !listenPort.startsWith('unix:')) {
-        console.error('Invalid FN_LISTENER configuration');
-        process.exit(2);
+        throw failStartup(options, new FnStartupError('Invalid FN_LISTENER configuration', 2));
     }
 
+    const settings = loadSettings(options);
+    let state: unknown;
+    let dispose: ShutdownHook | undefined;
+    // Set once the first call of this instance started
+    let warm = false;
+
     const listenFile = listenPort.substr('unix:'.length);
     const listenPath = path.dirname(listenFile);
     const tmpFileBaseName = path.basename(listenFile) + '.tmp';
@@ -316,9 +653,11 @@ function handleHTTPStream(
     const fnLogframeName = process.env.FN_LOGFRAME_NAME || '';
     const fnLogframeHdr = process.env.FN_LOGFRAME_HDR || '';
 
-    const functionHandler = (req: http.IncomingMessage, resp: http.ServerResponse) => {
-        const inputHandler = getInputHandler(inputMode);
+    let inFlight = 0;
+    let onDrained: (() => void) | null = null;
+    let shutdownPromise: Promise<void> | null = null;
 
+    const functionHandler = (req: http.IncomingMessage, resp: http.ServerResponse) => {
         if (req.method !== 'POST' || req.url !== '/call') {
             sendJSONError(resp, 400, {
                 message: 'Invalid method',
@@ -327,18 +666,99 @@ function handleHTTPStream(
             return;
         }
 
-        req.on('data', (chunk: Buffer) => {
-            inputHandler.pushData(chunk);
-        }).on('end', () => {
+        if (shutdownPromise) {
+            sendJSONError(resp, 503, {
+                message: fnFunctionShuttingDownMessage,
+                detail: 'The function container is shutting down'
+            });
+            return;
+        }
+
+        inFlight++;
+        resp.once('close', () => {
+            inFlight--;
+            if (inFlight === 0 && onDrained) {
+                onDrained();
+            }
+        });
+
+        const dispatch = (readBody: () => unknown, bytesIn: number, inputHandler?: InputHandler) => {
             const headers = processHeaders(req.rawHeaders);
-            const body = inputHandler.getBody();
-            const ctx = new Context(process.env, body, headers);
+            const controller = new AbortController();
+            const ctx = new Context(process.env, undefined, headers, controller.signal, settings, state);
+            ctx.coldStart = !warm;
+            warm = true;
             logFramer(ctx, fnLogframeName, fnLogframeHdr);
+            ctx.compression = compression;
+            if (inputHandler?.dispose) {
+                ctx.afterResponse(() => inputHandler.dispose!());
+            }
+            resp.once('close', () => finishInvocation(ctx));
+
+            // Everything started from here logs against this invocation
+            runWithContext(ctx, () => {
+                enforceDeadline(ctx, controller, resp, deadlineGraceMs);
+                traceInvocation(ctx, resp);
+                measureInvocation(ctx, resp, bytesIn);
+
+                try {
+                    ctx.body = readBody();
+                } catch (e) {
+                    handleFunctionError(e, ctx, resp, options);
+                    return;
+                }
+                if (adapter) {
+                    adapter.handle(handler, ctx, resp, options);
+                    return;
+                }
+                if (format === 'cloudevent') {
+                    try {
+                        ctx.body = decodeCloudEvent(ctx, ctx.body as Buffer);
+                    } catch (e) {
+                        handleFunctionError(e, ctx, resp, options);
+                        return;
+                    }
+                }
+                invokeUserFunction(handler as FnHandler, ctx, resp, options, format, idempotency);
+            });
+        };
 
-            if (framework === 'express') {
-                handleExpressRequest(handler as Application | Router, ctx, resp);
-            } else {
-                invokeUserFunction(handler as FnHandler, ctx, resp);
+        if (inputMode === 'stream') {
+            // The handler consumes the live request body itself
+            dispatch(() => req, parseInt(req.headers['content-length'] || '0') || 0);
+            return;
+        }
+
+        const inputHandler = getInputHandler(inputMode, req.headers['content-type'], options.bodyParser);
+        const rejectTooLarge = () => {
+            inputHandler.dispose?.();
+            sendJSONError(resp, 413, {
+                message: fnFunctionPayloadTooLargeMessage,
+                detail: `Request body exceeds the maximum size of ${maxBodySize} bytes`
+            });
+        };
+        if (maxBodySize != null && parseInt(req.headers['content-length'] || '0') > maxBodySize) {
+            rejectTooLarge();
+            req.resume();
+            return;
+        }
+
+        let bodySize = 0;
+        let tooLarge = false;
+        req.on('data', (chunk: Buffer) => {
+            if (tooLarge) {
+                return;
+            }
+            bodySize += chunk.length;
+            if (maxBodySize != null && bodySize > maxBodySize) {
+                tooLarge = true;
+                rejectTooLarge();
+                return;
+            }
+            inputHandler.pushData(chunk);
+        }).on('end', () => {
+            if (!tooLarge) {
+                dispatch(() => inputHandler.getBody(), bodySize, inputHandler);
             }
         }).on('error', (e: Error) => {
             sendJSONError(resp, 500, {
@@ -351,32 +771,189 @@ function handleHTTPStream(
     const currentServer = http.createServer(functionHandler);
     currentServer.keepAliveTimeout = 0;
 
-    currentServer.listen(tmpFile, () => {
-        fs.chmodSync(tmpFile, '666');
-        fs.symlinkSync(tmpFileBaseName, listenFile);
-    });
+    // The agent sends calls once the symlink exists, so it is only created once init is done
+    initState(options, settings).then((initialState) => {
+        if (shutdownPromise) {
+            return;
+        }
+        state = initialState;
+        dispose = stateDisposer(options, initialState);
+        currentServer.listen(tmpFile, () => {
+            fs.chmodSync(tmpFile, '666');
+            fs.symlinkSync(tmpFileBaseName, listenFile);
+        });
+    }, () => undefined); // A failed init was reported by failStartup()
 
     currentServer.on('error', (error: Error) => {
-        console.error(`Server error: ${error}`);
-        process.exit(3);
+        failStartup(options, new FnStartupError(`Server error: ${error.message}`, 3, error));
     });
 
-    return () => {
-        currentServer.close();
-        fs.unlinkSync(listenFile);
+    const drain = (): Promise<void> => {
+        if (inFlight === 0) {
+            return Promise.resolve();
+        }
+        return new Promise((resolve) => {
+            const timer = setTimeout(() => {
+                log.warn(`Shutdown timed out with ${inFlight} call(s) in flight`);
+                resolve();
+            }, shutdownTimeoutMs);
+            onDrained = () => {
+                clearTimeout(timer);
+                resolve();
+            };
+        });
     };
+
+    const shutdown = (): Promise<void> => {
+        if (shutdownPromise) {
+            return shutdownPromise;
+        }
+        shutdownPromise = (async () => {
+            shutdownSignals.forEach((signal) => process.removeListener(signal, onSignal));
+
+            // Stop the agent from routing new calls here, then stop accepting connections
+            removeFile(listenFile);
+            currentServer.close();
+            await drain();
+            currentServer.closeIdleConnections?.();
+
+            await runShutdownHooks(dispose);
+            removeFile(tmpFile);
+        })();
+        return shutdownPromise;
+    };
+
+    const onSignal = (signal: NodeJS.Signals) => {
+        log.info(`Received ${signal}, shutting down`);
+        shutdown().then(() => process.exit(0));
+    };
+
+    if (options.handleSignals !== false) {
+        shutdownSignals.forEach((signal) => process.once(signal, onSignal));
+    }
+
+    return shutdown;
+}
+
+/**
+ * Reports a function that cannot start and exits, or hands the error to the
+ * `onStartupError` option and returns it for the caller to throw.
+ */
+export function failStartup(options: FnOptions, error: FnStartupError, fields?: { [key: string]: unknown }): FnStartupError {
+    log.error(error.message, {error: error.cause, ...fields});
+    if (!options.onStartupError) {
+        process.exit(error.exitCode);
+    }
+    options.onStartupError(error);
+    return error;
+}
+
+/**
+ * Loads the function's config definition, if any. Misconfigured functions
+ * exit before they accept any call.
+ */
+export function loadSettings(options: FnOptions): FnSettings {
+    if (!options.config) {
+        return {};
+    }
+    try {
+        return options.config.load() as FnSettings;
+    } catch (e) {
+        if (!(e instanceof ConfigError)) {
+            throw e;
+        }
+        throw failStartup(options, new FnStartupError(e.message, 2), {problems: e.problems});
+    }
+}
+
+/**
+ * Runs the function's init, if any. Functions whose init fails exit before
+ * they accept any call.
+ */
+export async function initState(options: FnOptions, settings: FnSettings): Promise<unknown> {
+    if (!options.init) {
+        return undefined;
+    }
+    let state: unknown;
+    try {
+        state = await options.init(settings);
+    } catch (e) {
+        throw failStartup(options, new FnStartupError('Function init failed', 4, e));
+    }
+    return state;
+}
+
+/**
+ * The hook that disposes of the state an instance's init created. Only the
+ * shutdown of that instance runs it.
+ */
+export function stateDisposer(options: FnOptions, state: unknown): ShutdownHook | undefined {
+    const dispose = options.dispose;
+    return dispose && (() => dispose(state));
+}
+
+/**
+ * Runs the registered shutdown hooks and the instance's `dispose`, then
+ * flushes pending spans and metrics.
+ */
+export async function runShutdownHooks(dispose?: ShutdownHook): Promise<void> {
+    for (const hook of dispose ? [...shutdownHooks, dispose] : [...shutdownHooks]) {
+        try {
+            await hook();
+        } catch (e) {
+            log.error('Shutdown hook failed', {error: e});
+        }
+    }
+    let timer: NodeJS.Timeout | undefined;
+    const timedOut = new Promise<boolean>((resolve) => {
+        timer = setTimeout(() => resolve(true), shutdownFlushTimeoutMs);
+        timer.unref();
+    });
+    const flushed = Promise.all([flushZipkinExporters(), metrics.flush()]).then(() => false);
+    if (await Promise.race([flushed, timedOut])) {
+        log.warn(`Spans and metrics not flushed within ${shutdownFlushTimeoutMs}ms, exiting without them`);
+    }
+    clearTimeout(timer!);
 }
 
-function getInputHandler(inputMode: string): InputHandler {
+/**
+ * Runs the hooks registered with ctx.afterResponse(), once the response is complete.
+ */
+export function finishInvocation(ctx: Context): Promise<void> {
+    return ctx[runAfterResponseHooks]();
+}
+
+function removeFile(file: string): void {
+    try {
+        fs.unlinkSync(file);
+    } catch (e) {
+        if ((e as NodeJS.ErrnoException).code !== 'ENOENT') {
+            log.warn(`Unable to remove ${file}`, {error: e});
+        }
+    }
+}
+
+/**
+ * The handler for an input mode. In `auto` mode the body is decoded by its
+ * content type.
+ */
+export function getInputHandler(inputMode: string, contentType = '', options: BodyParserOptions = {}): InputHandler {
     switch (inputMode) {
         case 'buffer': return new BufferInputHandler();
         case 'string': return new StringInputHandler();
-        case 'json': return new JSONInputHandler();
+        case 'json': return new JSONInputHandler(options.strictJSON);
+        case 'auto': {
+            const kind = bodyKind(contentType);
+            if (kind === 'json') {
+                return new JSONInputHandler(options.strictJSON);
+            }
+            return kind === 'binary' ? new BufferInputHandler() : createBodyDecoder(kind, contentType, options);
+        }
         default: throw new Error(`Unknown input mode: ${inputMode}`);
     }
 }
 
-function processHeaders(rawHeaders: string[]): FnHeaders {
+export function processHeaders(rawHeaders: string[]): FnHeaders {
     const headers: FnHeaders = {};
     for (let i = 0; i < rawHeaders.length; i += 2) {
         const key = canonHeader(rawHeaders[i]);
@@ -411,18 +988,132 @@ function logFramer(ctx: Context, frameName: string, frameHeader: string): void {
     }
 }
 
+function enforceDeadline(
+    ctx: Context,
+    controller: AbortController,
+    resp: http.ServerResponse,
+    graceMs: number
+): void {
+    const deadline = ctx.deadline;
+    if (!deadline || isNaN(deadline.getTime())) {
+        return;
+    }
+
+    const delay = Math.max(0, deadline.getTime() - graceMs - Date.now());
+    if (delay > maxTimerDelayMs) {
+        return;
+    }
+    const timer = setTimeout(() => {
+        controller.abort(new Error(`Deadline ${deadline.toISOString()} exceeded`));
+        sendJSONError(resp, 504, {
+            message: fnFunctionTimeoutMessage,
+            detail: `Function did not complete before its deadline of ${deadline.toISOString()}`
+        });
+    }, delay);
+
+    // 'close' is emitted once the response has been sent or the connection dropped
+    resp.once('close', () => clearTimeout(timer));
+}
+
+function traceInvocation(ctx: Context, resp: http.ServerResponse): void {
+    const tracing = ctx.tracingContext;
+    if (!tracing.isEnabled) {
+        return;
+    }
+
+    const span = tracing.span
+        .setTag('fn.call_id', ctx.callID)
+        .setTag('fn.app_id', ctx.appID)
+        .setTag('fn.fn_id', ctx.fnID);
+    const method = ctx.httpGateway.method;
+    if (method) {
+        span.setTag('http.method', method).setTag('http.url', ctx.httpGateway.requestURL);
+    }
+    resp.once('close', () => {
+        const status = ctx.getResponseHeader('Fn-Http-Status') || String(resp.statusCode);
+        span.setTag('http.status_code', status);
+        if (!resp.writableFinished) {
+            span.setTag('error', 'response not completed');
+        }
+        span.end();
+    });
+}
+
+// Counts the bytes written to the response and records the invocation once it is sent
+function measureInvocation(ctx: Context, resp: http.ServerResponse, bytesIn: number): void {
+    const stop = startInvocation(ctx.coldStart);
+    let bytesOut = 0;
+    tapResponse(resp, (chunk) => {
+        bytesOut += chunk.length;
+    });
+
+    resp.once('close', () => {
+        const status = parseInt(ctx.getResponseHeader('Fn-Http-Status') || '') || resp.statusCode;
+        stop({status, bytesIn, bytesOut});
+    });
+}
+
+/**
+ * Calls `listener` with every chunk of the response body as it is written.
+ */
+export function tapResponse(resp: http.ServerResponse, listener: (chunk: Buffer) => void): void {
+    const tap = (chunk: unknown, encoding?: unknown) => {
+        if (typeof chunk === 'string') {
+            listener(Buffer.from(chunk, typeof encoding === 'string' ? encoding as BufferEncoding : 'utf8'));
+        } else if (chunk instanceof Uint8Array) {
+            listener(Buffer.from(chunk));
+        }
+    };
+    const write = resp.write;
+    const end = resp.end;
+    resp.write = function (this: http.ServerResponse, chunk: unknown, ...args: unknown[]) {
+        tap(chunk, args[0]);
+        return (write as Function).call(this, chunk, ...args);
+    } as typeof resp.write;
+    resp.end = function (this: http.ServerResponse, chunk?: unknown, ...args: unknown[]) {
+        tap(chunk, args[0]);
+        return (end as Function).call(this, chunk, ...args);
+    } as typeof resp.end;
+}
+
 function invokeUserFunction(
     fnfunction: FnHandler,
     ctx: Context,
-    resp: http.ServerResponse
+    resp: http.ServerResponse,
+    options: FnOptions,
+    format: 'http-stream' | 'cloudevent',
+    idempotency: IdempotencyLayer | null
 ): void {
-    try {
-        Promise.resolve(fnfunction(ctx.body, ctx))
-            .then((result) => sendResult(ctx, resp, result))
-            .catch((error) => handleFunctionError(error, resp));
-    } catch (error) {
-        handleFunctionError(error as Error, resp);
+    const invoke = () => runUserFunction(fnfunction, ctx, options)
+        .then((result) => sendResult(ctx, resp, format === 'cloudevent' ? encodeCloudEventResponse(ctx, result) : result))
+        .catch((error) => handleFunctionError(error, ctx, resp, options));
+    if (!idempotency) {
+        invoke();
+        return;
     }
+    idempotency.run(ctx, resp, invoke).catch((error) => handleFunctionError(error, ctx, resp, options));
+}
+
+/**
+ * Runs a function with its middleware and validation and resolves to its result.
+ */
+export function runUserFunction(fnfunction: FnHandler, ctx: Context, options: FnOptions): Promise<unknown> {
+    // Validation wraps the function itself, so middleware sees validated bodies and results
+    const callFunction = async (c: Context): Promise<unknown> => {
+        if (options.input) {
+            validateInput(options.input, c.body);
+        }
+        const result = await fnfunction(c.body, c);
+        if (options.output && !(result instanceof FnResult) && !(result instanceof FnResponse)) {
+            const issues = validate(options.output, result);
+            if (issues.length > 0) {
+                throw new OutputValidationError(issues);
+            }
+        }
+        return result;
+    };
+
+    return runMiddleware(options.middleware || [], ctx, callFunction);
 }
 
 export function sendResult(
@@ -430,6 +1121,14 @@ export function sendResult(
     resp: http.ServerResponse,
     result: unknown
 ): void {
+    if (resp.headersSent) {
+        // The response was already answered, e.g. by a deadline timeout
+        return;
+    }
+    if (result instanceof FnResponse) {
+        result = result.prepare(ctx);
+    }
+
     const responseContentType = ctx.responseContentType;
     let isJSON = false;
 
@@ -442,59 +1141,119 @@ export function sendResult(
         isJSON = true;
     }
 
-    for (const key in ctx.responseHeaders) {
-        if (ctx.responseHeaders[key]) {
-            resp.setHeader(key, ctx.responseHeaders[key]);
+    let body: string | Buffer | undefined;
+    if (result != null && !(result instanceof FnResult)) {
+        if (isJSON) {
+            body = JSON.stringify(result);
+        } else if (typeof result === 'string' || Buffer.isBuffer(result)) {
+            body = result;
         }
     }
-
-    resp.removeHeader('Content-length');
-    resp.setHeader('Fn-Fdk-Version', fdkVersion);
-    resp.setHeader('Fn-Fdk-Runtime', runtimeTag);
-    resp.writeHead(200, 'OK');
+    // Results written by an FnResult are streamed, their size is usually not known up front
+    const encoder = result instanceof FnResult ? startCompression(ctx, result.size) :
+        body !== undefined ? startCompression(ctx, Buffer.byteLength(body)) : null;
+
+    writeResponseHead(ctx, resp);
+    const out = encoder || resp;
+    if (encoder) {
+        encoder.pipe(resp);
+    }
 
     let p: Promise<void> | void | Promise<Awaited<Boolean>>;
-    if (result != null) {
-        if (result instanceof FnResult) {
-            p = Promise.resolve(result.writeResult(ctx, resp));
-        } else if (isJSON) {
-            p = Promise.resolve(resp.write(JSON.stringify(result)));
-        } else if (typeof result === 'string' || Buffer.isBuffer(result)) {
-            p = Promise.resolve(resp.write(result));
-        }
+    if (result instanceof FnResult) {
+        // FnResults write to the encoder as they would to the response
+        p = Promise.resolve(result.writeResult(ctx, out));
+    } else if (body !== undefined) {
+        p = Promise.resolve(out.write(body));
     }
     // @ts-ignore
     if (p) {
-        p.then(() => resp.end(), (err) => {
-            console.error('Error writing response:', err);
-            resp.end();
+        p.then(() => out.end(), (err) => {
+            log.error('Error writing response', {error: err});
+            out.end();
         });
     } else {
-        resp.end();
+        out.end();
     }
 }
 
+/**
+ * Writes the Fn response head: the context's response headers and content
+ * type plus the FDK version headers.
+ */
+export function writeResponseHead(
+    ctx: Context,
+    resp: http.ServerResponse
+): void {
+    for (const key in ctx.responseHeaders) {
+        if (ctx.responseHeaders[key]) {
+            resp.setHeader(key, ctx.responseHeaders[key]);
+        }
+    }
+    if (ctx.responseContentType) {
+        resp.setHeader('Content-Type', ctx.responseContentType);
+    }
+
+    resp.removeHeader('Content-length');
+    resp.setHeader('Fn-Fdk-Version', fdkVersion);
+    resp.setHeader('Fn-Fdk-Runtime', runtimeTag);
+    resp.writeHead(200, 'OK');
+}
+
 export function sendJSONError(
     resp: http.ServerResponse,
     code: number,
-    error: { message: string; detail: string }
+    error: { [key: string]: unknown },
+    contentType = 'application/json'
 ): void {
     const errStr = JSON.stringify(error);
-    console.warn(`Error ${code}: ${errStr}`);
-    resp.setHeader('Content-Type', 'application/json');
-    resp.writeHead(code, 'Internal Error');
+    log.warn(`Error ${code}`, {status: code, error});
+    if (resp.headersSent) {
+        // Too late to report the error, just terminate the response
+        resp.end();
+        return;
+    }
+    resp.setHeader('Content-Type', contentType);
+    resp.writeHead(code, http.STATUS_CODES[code] || 'Internal Error');
     resp.end(errStr);
 }
 
-function handleFunctionError(
-    error: Error,
-    resp: http.ServerResponse
+/**
+ * Answers a call with the error a function, or the framework app serving it,
+ * failed with, formatted and exposed as the function's options say.
+ */
+export function handleFunctionError(
+    error: unknown,
+    ctx: Context,
+    resp: http.ServerResponse,
+    options: FnOptions
 ): void {
-    console.error('Function error:', error);
-    sendJSONError(resp, 502, {
-        message: fnFunctionExceptionMessage,
-        detail: error.toString()
-    });
+    const info = toErrorInfo(error, options.exposeErrors === true);
+    if (info.status < 500) {
+        log.warn('Function rejected the request', {error});
+    } else {
+        log.error('Function error', {error});
+    }
+    const formatted = getErrorFormatter(options.errorFormat)(info, ctx);
+
+    // Gateway callers see the error status, the Fn response itself succeeds
+    if (error instanceof FnHttpError && isGatewayInvocation(ctx) && !resp.headersSent) {
+        ctx.httpGateway.statusCode = info.status;
+        for (const key of Object.keys(error.headers)) {
+            const value = error.headers[key];
+            ctx.httpGateway.setResponseHeader(key, ...(Array.isArray(value) ? value : [value]));
+        }
+        ctx.responseContentType = formatted.contentType;
+        writeResponseHead(ctx, resp);
+        resp.end(JSON.stringify(formatted.body));
+        return;
+    }
+    sendJSONError(resp, info.status, formatted.body, formatted.contentType);
+}
+
+// Whether the call came through an HTTP gateway, which wraps headers as Fn-Http-H-*
+export function isGatewayInvocation(ctx: Context): boolean {
+    return !!ctx.httpGateway.method || ctx.getHeader('Fn-Intent') === 'httprequest';
 }
 
 // Export public API
@@ -503,11 +1262,112 @@ export {
     RawResult,
     Context,
     HTTPGatewayContext,
-    FnResult
+    FnResult,
+    registerFrameworkAdapter,
+    nodeListener,
+    TracingContext,
+    Span,
+    Logger,
+    log,
+    FnHttpError,
+    FnStartupError,
+    BadRequestError,
+    UnauthorizedError,
+    ForbiddenError,
+    NotFoundError,
+    ConflictError,
+    TooManyRequestsError,
+    jsonSchema,
+    OutputValidationError,
+    defineConfig,
+    ConfigDefinition,
+    ConfigError,
+    compose,
+    FnResponse,
+    createRouter,
+    createCloudEvent,
+    decodeEvents,
+    EventBatchError,
+    metrics,
+    Counter,
+    Gauge,
+    Histogram,
+    MetricsRegistry,
+    LogMetricsExporter,
+    OCIMonitoringExporter,
+    MemoryIdempotencyStore,
+    FileIdempotencyStore,
+    HttpClient,
+    HttpClientError,
+    FnClient,
+    FnInvokeError,
+    FunctionNotFoundError,
+    FunctionThrottledError,
+    FunctionFailedError,
+    FunctionTimeoutError
 };
 
 // Type exports
 export type {
     FnHandler,
-    ExpressFrameworkOptions
+    FnOptions,
+    ShutdownHook,
+    AfterResponseHook,
+    FnMiddleware,
+    Next,
+    FnResponseInit,
+    CookieOptions,
+    FileResponseOptions,
+    Representations,
+    Router,
+    RouterOptions,
+    RouteHandler,
+    RouteMatch,
+    RouteOptions,
+    CloudEvent,
+    FnEvent,
+    FnEventHandler,
+    FnEventMetadata,
+    EventOptions,
+    EventBatchResult,
+    OCIEvent,
+    OCIEventData,
+    StreamMessage,
+    LogEntry,
+    AlarmNotification,
+    ExpressFrameworkOptions,
+    FrameworkAdapter,
+    FrameworkHandler,
+    LogLevel,
+    ErrorFormatter,
+    FnHttpErrorOptions,
+    Validator,
+    FnSettings,
+    InputHandler,
+    ConfigSpec,
+    ConfigValues,
+    MetricsExporter,
+    MetricsOptions,
+    MetricSnapshot,
+    OCIMonitoringExporterOptions,
+    BodyParserOptions,
+    MultipartBody,
+    MultipartOptions,
+    UploadedFile,
+    CompressionOptions,
+    ContentEncoding,
+    IdempotencyOptions,
+    IdempotencyStore,
+    FileIdempotencyStoreOptions,
+    StoredResponse,
+    HttpBody,
+    HttpClientOptions,
+    HttpRequestOptions,
+    HttpResponse,
+    RequestSigner,
+    SignableRequest,
+    FnClientOptions,
+    FunctionTarget,
+    InvokeOptions,
+    InvokeResponse
 };
\ No newline at end of file
@@ -0,0 +1,147 @@
+import http from 'http';
+import {Application, Router} from 'express';
+import {Context, FnOptions, handleFunctionError} from './fdk';
+import {
+    createNodeBridge,
+    handleExpressRequest,
+    handleNodeRequest,
+    isExpressApp,
+    NodeRequestListener,
+    writeGatewayHead
+} from './express-wrapper';
+
+// Type declarations
+interface KoaApp {
+    callback(): NodeRequestListener;
+    use(middleware: unknown): unknown;
+    middleware: unknown[];
+}
+
+interface FastifyInjectResponse {
+    statusCode: number;
+    headers: http.OutgoingHttpHeaders;
+    rawPayload: Buffer;
+}
+
+interface FastifyApp {
+    inject(options: {
+        method: string;
+        url: string;
+        headers: http.IncomingHttpHeaders;
+        payload?: NodeJS.ReadableStream;
+        remoteAddress?: string;
+    }): Promise<FastifyInjectResponse>;
+    route(options: unknown): unknown;
+}
+
+type FrameworkHandler = Application | Router | NodeRequestListener | KoaApp | FastifyApp;
+
+/**
+ * Bridges a web framework to the Fn http-stream protocol. Adapters receive
+ * the request body as a live stream in `ctx.body`.
+ */
+interface FrameworkAdapter {
+    name: string;
+    detect(handler: unknown): boolean;
+    // Errors the app fails with are answered with handleFunctionError(), which follows the options
+    handle(handler: any, ctx: Context, resp: http.ServerResponse, options: FnOptions): void;
+}
+
+// Constants
+const nodeListenerTag = Symbol('fdk.nodeListener');
+const koaCallbacks = new WeakMap<object, NodeRequestListener>();
+
+const expressAdapter: FrameworkAdapter = {
+    name: 'express',
+    detect: (handler) => typeof handler === 'function' && isExpressApp(handler),
+    handle: (handler: Application | Router, ctx, resp, options) => handleExpressRequest(handler, ctx, resp, options)
+};
+
+const koaAdapter: FrameworkAdapter = {
+    name: 'koa',
+    detect: (handler: any) => handler != null &&
+        typeof handler.callback === 'function' &&
+        typeof handler.use === 'function' &&
+        Array.isArray(handler.middleware),
+    handle: (handler: KoaApp, ctx, resp, options) => {
+        let listener = koaCallbacks.get(handler);
+        if (!listener) {
+            listener = handler.callback();
+            koaCallbacks.set(handler, listener);
+        }
+        handleNodeRequest(listener, ctx, resp, options);
+    }
+};
+
+const fastifyAdapter: FrameworkAdapter = {
+    name: 'fastify',
+    detect: (handler: any) => handler != null &&
+        typeof handler.inject === 'function' &&
+        typeof handler.route === 'function',
+    handle: (handler: FastifyApp, ctx, resp, options) => {
+        // Fastify routes injected requests itself, the bridge only supplies the request fields
+        const {req} = createNodeBridge(ctx, resp);
+        handler.inject({
+            method: req.method,
+            url: req.url,
+            headers: req.headers,
+            payload: req,
+            remoteAddress: req.socket.remoteAddress
+        }).then((result) => {
+            writeGatewayHead(ctx, resp, result.statusCode, result.headers).end(result.rawPayload);
+        }).catch((error: Error) => handleFunctionError(error, ctx, resp, options));
+    }
+};
+
+const nodeAdapter: FrameworkAdapter = {
+    name: 'node',
+    detect: (handler: any) => typeof handler === 'function' && handler[nodeListenerTag] === true,
+    handle: (handler: NodeRequestListener, ctx, resp, options) => handleNodeRequest(handler, ctx, resp, options)
+};
+
+// Checked in order, Fastify and Koa apps also have a listen() method
+const adapters: FrameworkAdapter[] = [fastifyAdapter, koaAdapter, expressAdapter, nodeAdapter];
+
+/**
+ * Registers a custom framework adapter. It takes precedence over the built-in
+ * adapters when detecting the framework of a handler.
+ */
+function registerFrameworkAdapter(adapter: FrameworkAdapter): void {
+    const idx = adapters.findIndex((a) => a.name === adapter.name);
+    if (idx >= 0) {
+        adapters.splice(idx, 1);
+    }
+    adapters.unshift(adapter);
+}
+
+function getFrameworkAdapter(name: string): FrameworkAdapter | undefined {
+    return adapters.find((a) => a.name === name);
+}
+
+function detectFrameworkAdapter(handler: unknown): FrameworkAdapter | undefined {
+    return adapters.find((a) => a.detect(handler));
+}
+
+/**
+ * Marks a plain `(req, res)` listener so handle() can tell it apart from an
+ * FnHandler, which takes two arguments as well.
+ */
+function nodeListener<T extends NodeRequestListener>(listener: T): T {
+    return Object.assign(listener, {[nodeListenerTag]: true});
+}
+
+// Export public API
+export {
+    registerFrameworkAdapter,
+    getFrameworkAdapter,
+    detectFrameworkAdapter,
+    nodeListener
+};
+
+// Type exports
+export type {
+    FrameworkAdapter,
+    FrameworkHandler,
+    KoaApp,
+    FastifyApp
+};
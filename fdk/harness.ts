@@ -0,0 +1,301 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import http from 'http';
+import os from 'os';
+import path from 'path';
+import {FnHandler, FnOptions, FnSettings, handle} from './fdk';
+import {FrameworkHandler} from './frameworks';
+
+// Type declarations
+interface InvokeHeaders {
+    [key: string]: string | string[];
+}
+
+export interface GatewayRequest {
+    method?: string;
+    url?: string;
+    headers?: InvokeHeaders;
+}
+
+export interface InvokeRequest {
+    body?: string | Buffer | object;
+    contentType?: string;
+    headers?: InvokeHeaders;
+    callID?: string;
+    deadline?: Date;
+    gateway?: GatewayRequest;
+}
+
+export interface HarnessResponse {
+    status: number;
+    rawStatus: number;
+    headers: { [key: string]: string[] };
+    fnHeaders: http.IncomingHttpHeaders;
+    body: Buffer;
+    text(): string;
+    json(): unknown;
+}
+
+export interface HarnessOptions {
+    config?: { [key: string]: string };
+    timeoutMs?: number;
+    startTimeoutMs?: number;
+}
+
+// Constants
+const defaultTimeoutMs = 30000;
+const defaultStartTimeoutMs = 5000;
+const listenerPollMs = 10;
+
+/**
+ * Runs a function the way the Fn agent does: the FDK listens on a temporary
+ * unix socket and every invocation is a `POST /call` carrying the Fn headers.
+ */
+export class FnHarness<TBody = unknown, TResult = unknown, TSettings extends FnSettings = FnSettings, TState = unknown> {
+    private tmpDir?: string;
+    private listenFile?: string;
+    private closer?: () => Promise<void>;
+    private savedEnv: { [key: string]: string | undefined } = {};
+
+    constructor(
+        handler: FnHandler<TBody, TResult, TSettings, TState>,
+        options?: FnOptions<TBody, TResult, TSettings, TState>,
+        harnessOptions?: HarnessOptions
+    );
+    constructor(handler: FrameworkHandler, options?: FnOptions, harnessOptions?: HarnessOptions);
+    constructor(
+        private handler: FnHandler<TBody, TResult, TSettings, TState> | FrameworkHandler,
+        private options: FnOptions<TBody, TResult, TSettings, TState> | FnOptions = {},
+        private harnessOptions: HarnessOptions = {}
+    ) {}
+
+    async start(): Promise<void> {
+        if (this.closer) {
+            return;
+        }
+        this.tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'fdk-'));
+        this.listenFile = path.join(this.tmpDir, 'fn.sock');
+
+        // The cloudevent format shares the http-stream transport, so it can be set in the config
+        this.setEnv({
+            FN_FORMAT: 'http-stream',
+            ...this.harnessOptions.config,
+            FN_LISTENER: `unix:${this.listenFile}`
+        });
+        // A function that cannot start rejects start() rather than exiting the process running the harness
+        let onStartupError: (error: Error) => void = () => undefined;
+        const startupFailed = new Promise<never>((resolve, reject) => {
+            onStartupError = reject;
+        });
+        startupFailed.catch(() => undefined);
+        try {
+            this.closer = handle(this.handler as FnHandler, {
+                handleSignals: false,
+                ...this.options,
+                onStartupError
+            } as FnOptions);
+            await Promise.race([
+                waitForListener(this.listenFile, this.harnessOptions.startTimeoutMs || defaultStartTimeoutMs),
+                startupFailed
+            ]);
+        } catch (e) {
+            await this.close();
+            throw e;
+        }
+    }
+
+    invoke(request: InvokeRequest = {}): Promise<HarnessResponse> {
+        if (!this.listenFile || !this.closer) {
+            return Promise.reject(new Error('Harness is not started'));
+        }
+        return callFunction(this.listenFile, request, this.harnessOptions.timeoutMs || defaultTimeoutMs);
+    }
+
+    async close(): Promise<void> {
+        if (this.closer) {
+            const closer = this.closer;
+            this.closer = undefined;
+            await closer();
+        }
+        this.restoreEnv();
+        if (this.tmpDir) {
+            fs.rmSync(this.tmpDir, {recursive: true, force: true});
+            this.tmpDir = undefined;
+        }
+    }
+
+    private setEnv(values: { [key: string]: string }): void {
+        for (const key of Object.keys(values)) {
+            if (!(key in this.savedEnv)) {
+                this.savedEnv[key] = process.env[key];
+            }
+            process.env[key] = values[key];
+        }
+    }
+
+    private restoreEnv(): void {
+        for (const key of Object.keys(this.savedEnv)) {
+            const value = this.savedEnv[key];
+            if (value === undefined) {
+                delete process.env[key];
+            } else {
+                process.env[key] = value;
+            }
+        }
+        this.savedEnv = {};
+    }
+}
+
+/**
+ * Starts a function, sends it a single invocation and shuts it down again.
+ */
+export function invoke<TBody = unknown, TResult = unknown, TSettings extends FnSettings = FnSettings>(
+    handler: FnHandler<TBody, TResult, TSettings>,
+    request?: InvokeRequest,
+    options?: FnOptions<TBody, TResult, TSettings>,
+    harnessOptions?: HarnessOptions
+): Promise<HarnessResponse>;
+export function invoke(
+    handler: FrameworkHandler,
+    request?: InvokeRequest,
+    options?: FnOptions,
+    harnessOptions?: HarnessOptions
+): Promise<HarnessResponse>;
+export async function invoke(
+    handler: FnHandler | FrameworkHandler,
+    request: InvokeRequest = {},
+    options: FnOptions = {},
+    harnessOptions: HarnessOptions = {}
+): Promise<HarnessResponse> {
+    const harness = new FnHarness(handler as FnHandler, options, harnessOptions);
+    await harness.start();
+    try {
+        return await harness.invoke(request);
+    } finally {
+        await harness.close();
+    }
+}
+
+export function waitForListener(listenFile: string, timeoutMs: number): Promise<void> {
+    const startedAt = Date.now();
+    return new Promise((resolve, reject) => {
+        const poll = () => {
+            if (fs.existsSync(listenFile)) {
+                resolve();
+            } else if (Date.now() - startedAt > timeoutMs) {
+                reject(new Error(`Function did not listen on ${listenFile} within ${timeoutMs}ms`));
+            } else {
+                setTimeout(poll, listenerPollMs);
+            }
+        };
+        poll();
+    });
+}
+
+export function callFunction(
+    listenFile: string,
+    request: InvokeRequest,
+    timeoutMs: number
+): Promise<HarnessResponse> {
+    const body = encodeBody(request);
+    const headers = buildCallHeaders(request, body, timeoutMs);
+
+    return new Promise((resolve, reject) => {
+        const req = http.request({
+            socketPath: listenFile,
+            method: 'POST',
+            path: '/call',
+            headers
+        }, (res) => {
+            const chunks: Buffer[] = [];
+            res.on('data', (chunk: Buffer) => chunks.push(chunk));
+            res.on('end', () => resolve(decodeResponse(res, Buffer.concat(chunks))));
+            res.on('error', reject);
+        });
+        req.setTimeout(timeoutMs, () => {
+            req.destroy(new Error(`Invocation timed out after ${timeoutMs}ms`));
+        });
+        req.on('error', reject);
+        req.end(body.data);
+    });
+}
+
+function encodeBody(request: InvokeRequest): { data: Buffer; contentType?: string } {
+    const body = request.body;
+    if (body == null) {
+        return {data: Buffer.alloc(0), contentType: request.contentType};
+    }
+    if (Buffer.isBuffer(body)) {
+        return {data: body, contentType: request.contentType || 'application/octet-stream'};
+    }
+    if (typeof body === 'string') {
+        return {data: Buffer.from(body), contentType: request.contentType || 'text/plain'};
+    }
+    return {data: Buffer.from(JSON.stringify(body)), contentType: request.contentType || 'application/json'};
+}
+
+function buildCallHeaders(
+    request: InvokeRequest,
+    body: { data: Buffer; contentType?: string },
+    timeoutMs: number
+): http.OutgoingHttpHeaders {
+    const deadline = request.deadline || new Date(Date.now() + timeoutMs);
+    const headers: http.OutgoingHttpHeaders = {
+        ...request.headers,
+        'Fn-Call-Id': request.callID || crypto.randomBytes(13).toString('hex').toUpperCase(),
+        'Fn-Deadline': deadline.toISOString(),
+        'Fn-Invoke-Type': 'sync',
+        'Content-Length': body.data.length
+    };
+    if (body.contentType) {
+        headers['Content-Type'] = body.contentType;
+    }
+
+    const gateway = request.gateway;
+    if (gateway) {
+        headers['Fn-Intent'] = 'httprequest';
+        headers['Fn-Http-Method'] = (gateway.method || 'GET').toUpperCase();
+        headers['Fn-Http-Request-Url'] = gateway.url || '/';
+        for (const key of Object.keys(gateway.headers || {})) {
+            headers[`Fn-Http-H-${key}`] = gateway.headers![key];
+        }
+        const hasContentType = Object.keys(gateway.headers || {}).some((key) => key.toLowerCase() === 'content-type');
+        if (body.contentType && !hasContentType) {
+            headers['Fn-Http-H-Content-Type'] = body.contentType;
+        }
+    }
+    return headers;
+}
+
+function decodeResponse(res: http.IncomingMessage, body: Buffer): HarnessResponse {
+    const headers: { [key: string]: string[] } = {};
+    const prefix = 'fn-http-h-';
+    let contentType: string | null = null;
+    for (let i = 0; i < res.rawHeaders.length; i += 2) {
+        const key = res.rawHeaders[i].toLowerCase();
+        const value = res.rawHeaders[i + 1];
+        if (key.startsWith(prefix) && key.length > prefix.length) {
+            const name = key.substring(prefix.length);
+            (headers[name] = headers[name] || []).push(value);
+        } else if (key === 'content-type') {
+            contentType = value;
+        }
+    }
+    if (contentType && !headers['content-type']) {
+        headers['content-type'] = [contentType];
+    }
+
+    const rawStatus = res.statusCode || 0;
+    const fnStatus = res.headers['fn-http-status'];
+    const status = fnStatus ? parseInt(String(fnStatus)) : rawStatus;
+
+    return {
+        status,
+        rawStatus,
+        headers,
+        fnHeaders: res.headers,
+        body,
+        text: () => body.toString(),
+        json: () => JSON.parse(body.toString())
+    };
+}
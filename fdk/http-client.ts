@@ -0,0 +1,333 @@
+import http from 'http';
+import https from 'https';
+import type {Context} from './fdk';
+import {FnHttpError, FnHttpErrorOptions} from './errors';
+import {metrics} from './metrics';
+
+// Type declarations
+type HttpBody = string | Buffer | object;
+
+interface HttpClientOptions {
+    // Per attempt, capped to the time left before the invocation's deadline. 30 seconds by default
+    timeoutMs?: number;
+    // Attempts after the first for idempotent methods, 2 by default
+    retries?: number;
+    // Retry non-idempotent methods, such as POST, too
+    retryNonIdempotent?: boolean;
+    // Statuses that are retried, 429, 502, 503 and 504 by default
+    retryOn?: number[];
+    // The first backoff, doubled on every retry, 100ms by default
+    backoffMs?: number;
+    maxBackoffMs?: number;
+    headers?: { [key: string]: string };
+}
+
+/**
+ * A request about to be sent, which a signer may add headers to.
+ */
+interface SignableRequest {
+    method: string;
+    url: string;
+    headers: { [key: string]: string };
+    body?: Buffer;
+}
+
+type RequestSigner = (request: SignableRequest) => Promise<void> | void;
+
+interface HttpRequestOptions extends HttpClientOptions {
+    method?: string;
+    url: string | URL;
+    // Objects are sent as JSON
+    body?: HttpBody;
+    // Adds authentication to every attempt, once all other headers are set
+    sign?: RequestSigner;
+}
+
+interface HttpResponse {
+    status: number;
+    headers: http.IncomingHttpHeaders;
+    body: Buffer;
+    // True for 2xx statuses
+    ok: boolean;
+    text(): string;
+    json<T = unknown>(): T;
+}
+
+// Constants
+const defaultTimeoutMs = 30000;
+const defaultRetries = 2;
+const defaultRetryOn = [429, 502, 503, 504];
+const defaultBackoffMs = 100;
+const defaultMaxBackoffMs = 5000;
+const idempotentMethods = ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE', 'TRACE'];
+
+/**
+ * An outbound call that failed without a response: a 504 if it timed out, a
+ * 502 otherwise. Thrown from a function it is reported to the caller as such,
+ * so the message is generic; the host and the underlying error are kept in
+ * `url` and `cause`.
+ */
+class HttpClientError extends FnHttpError {
+    constructor(status: 502 | 504, message: string, readonly url: string, options: FnHttpErrorOptions = {}) {
+        super(status, message, {code: status === 504 ? 'UPSTREAM_TIMEOUT' : 'UPSTREAM_UNAVAILABLE', ...options});
+    }
+}
+
+/**
+ * Makes outbound HTTP calls on behalf of an invocation, available as
+ * `ctx.http`. Calls carry the invocation's trace headers, time out before its
+ * deadline and are aborted with it. Idempotent calls that fail or answer with
+ * a retryable status are retried with exponential backoff.
+ */
+class HttpClient {
+    constructor(private readonly ctx: Context, private readonly defaults: HttpClientOptions = {}) {}
+
+    get(url: string | URL, options: Partial<HttpRequestOptions> = {}): Promise<HttpResponse> {
+        return this.request({...options, method: 'GET', url});
+    }
+
+    post(url: string | URL, body?: HttpBody, options: Partial<HttpRequestOptions> = {}): Promise<HttpResponse> {
+        return this.request({...options, method: 'POST', url, body});
+    }
+
+    put(url: string | URL, body?: HttpBody, options: Partial<HttpRequestOptions> = {}): Promise<HttpResponse> {
+        return this.request({...options, method: 'PUT', url, body});
+    }
+
+    patch(url: string | URL, body?: HttpBody, options: Partial<HttpRequestOptions> = {}): Promise<HttpResponse> {
+        return this.request({...options, method: 'PATCH', url, body});
+    }
+
+    delete(url: string | URL, options: Partial<HttpRequestOptions> = {}): Promise<HttpResponse> {
+        return this.request({...options, method: 'DELETE', url});
+    }
+
+    async request(request: HttpRequestOptions): Promise<HttpResponse> {
+        const options = {...this.defaults, ...request, headers: {...this.defaults.headers, ...request.headers}};
+        const method = (options.method || 'GET').toUpperCase();
+        const url = new URL(String(options.url));
+        const retryable = options.retryNonIdempotent || idempotentMethods.includes(method);
+        const retries = retryable ? options.retries ?? defaultRetries : 0;
+        const retryOn = options.retryOn || defaultRetryOn;
+        const {body, contentType} = encodeBody(options.body);
+        const headers: { [key: string]: string } = {...options.headers};
+        if (contentType && !Object.keys(headers).some((name) => name.toLowerCase() === 'content-type')) {
+            headers['Content-Type'] = contentType;
+        }
+
+        for (let attempt = 0; ; attempt++) {
+            const remaining = this.remainingMs();
+            if (remaining <= 0) {
+                throw new HttpClientError(504, 'Upstream request not sent, the invocation deadline has passed', url.href, {
+                    code: 'DEADLINE_EXCEEDED',
+                    cause: new Error(`${method} ${url.host} not sent, the invocation deadline has passed`)
+                });
+            }
+            let response: HttpResponse | undefined;
+            let error: HttpClientError | undefined;
+            try {
+                response = await this.attempt(method, url, headers, body, Math.min(options.timeoutMs ?? defaultTimeoutMs, remaining), attempt,
+                    options.sign);
+            } catch (e) {
+                error = e as HttpClientError;
+            }
+            const retry = attempt < retries && !this.ctx.signal.aborted &&
+                (error !== undefined || retryOn.includes(response!.status));
+            if (retry) {
+                const delay = backoff(attempt, options, response);
+                // Waiting past the deadline would only fail later
+                if (delay < this.remainingMs()) {
+                    this.ctx.log.warn(`Retrying ${method} ${url.host}${url.pathname}`, {
+                        attempt: attempt + 1,
+                        delayMs: delay,
+                        status: response?.status,
+                        error: error && String(error.cause ?? error.message)
+                    });
+                    await sleep(delay, this.ctx.signal);
+                    continue;
+                }
+            }
+            if (error) {
+                throw error;
+            }
+            return response!;
+        }
+    }
+
+    private async attempt(
+        method: string,
+        url: URL,
+        headers: { [key: string]: string },
+        body: Buffer | undefined,
+        timeoutMs: number,
+        attempt: number,
+        sign?: RequestSigner
+    ): Promise<HttpResponse> {
+        if (this.ctx.signal.aborted) {
+            throw abortedError(method, url);
+        }
+        const span = this.ctx.tracingContext.startSpan(`${method} ${url.host}`, 'CLIENT')
+            .setTag('http.method', method)
+            .setTag('http.url', url.href);
+        const request: SignableRequest = {
+            method,
+            url: url.href,
+            headers: {
+                ...headers,
+                ...this.ctx.tracingContext.propagationHeaders(span),
+                ...(body ? {'Content-Length': String(body.length)} : {})
+            },
+            body
+        };
+        // Signed last, so the signature covers the headers as they are sent
+        if (sign) {
+            try {
+                await sign(request);
+            } catch (e) {
+                span.setTag('error', (e as Error).message);
+                span.end();
+                throw e;
+            }
+        }
+        const labels = {method, host: url.host};
+        const stopTimer = metrics.histogram('fn_http_client_duration_seconds', {
+            help: 'Outbound HTTP call duration',
+            unit: 'seconds'
+        }).startTimer(labels);
+        const requests = metrics.counter('fn_http_client_requests_total', {help: 'Outbound HTTP calls'});
+
+        const transport = url.protocol === 'https:' ? https : http;
+        return new Promise<HttpResponse>((resolve, reject) => {
+            const req = transport.request(url, {method, headers: request.headers}, (res) => {
+                const chunks: Buffer[] = [];
+                res.on('data', (chunk: Buffer) => chunks.push(chunk));
+                res.on('end', () => {
+                    const status = res.statusCode || 0;
+                    const response = createResponse(status, res.headers, Buffer.concat(chunks));
+                    finish();
+                    span.setTag('http.status_code', status);
+                    if (status >= 500) {
+                        span.setTag('error', String(status));
+                    }
+                    span.end();
+                    const seconds = stopTimer({status});
+                    requests.inc({...labels, status});
+                    this.ctx.log.info(`${method} ${url.host}${url.pathname} ${status}`, {
+                        status,
+                        durationMs: Math.round(seconds * 1000),
+                        attempt
+                    });
+                    resolve(response);
+                });
+                res.on('error', fail);
+            });
+
+            const onAbort = () => req.destroy(abortedError(method, url));
+            const timer = setTimeout(() => {
+                req.destroy(new HttpClientError(504, 'Upstream request timed out', url.href, {
+                    cause: new Error(`${method} ${url.host} timed out after ${timeoutMs}ms`)
+                }));
+            }, timeoutMs);
+            const finish = () => {
+                clearTimeout(timer);
+                this.ctx.signal.removeEventListener('abort', onAbort);
+            };
+            function fail(e: Error): void {
+                finish();
+                const error = e instanceof HttpClientError ? e :
+                    new HttpClientError(502, 'Upstream request failed', url.href, {cause: e});
+                span.setTag('error', String(error.cause ?? error.message));
+                span.end();
+                stopTimer({status: 'error'});
+                requests.inc({...labels, status: 'error'});
+                reject(error);
+            }
+            this.ctx.signal.addEventListener('abort', onAbort, {once: true});
+            req.on('error', (e: Error) => {
+                this.ctx.log.warn(`${method} ${url.host}${url.pathname} failed`, {error: e, attempt});
+                fail(e);
+            });
+            req.end(body);
+        });
+    }
+
+    private remainingMs(): number {
+        const deadline = this.ctx.deadline;
+        if (!deadline || isNaN(deadline.getTime())) {
+            return Infinity;
+        }
+        return deadline.getTime() - Date.now();
+    }
+}
+
+function abortedError(method: string, url: URL): HttpClientError {
+    return new HttpClientError(504, 'Upstream request aborted with the invocation', url.href, {
+        cause: new Error(`${method} ${url.host} aborted with the invocation`)
+    });
+}
+
+function encodeBody(body: HttpBody | undefined): { body?: Buffer, contentType?: string } {
+    if (body === undefined) {
+        return {};
+    }
+    if (Buffer.isBuffer(body)) {
+        return {body};
+    }
+    if (typeof body === 'string') {
+        return {body: Buffer.from(body), contentType: 'text/plain; charset=utf-8'};
+    }
+    return {body: Buffer.from(JSON.stringify(body)), contentType: 'application/json'};
+}
+
+function createResponse(status: number, headers: http.IncomingHttpHeaders, body: Buffer): HttpResponse {
+    return {
+        status,
+        headers,
+        body,
+        ok: status >= 200 && status < 300,
+        text: () => body.toString(),
+        json: <T>() => JSON.parse(body.toString()) as T
+    };
+}
+
+// Full jitter exponential backoff, a Retry-After given in seconds takes precedence
+function backoff(attempt: number, options: HttpClientOptions, response?: HttpResponse): number {
+    const maxBackoffMs = options.maxBackoffMs ?? defaultMaxBackoffMs;
+    const retryAfter = Number(response?.headers['retry-after']);
+    if (retryAfter >= 0) {
+        return Math.min(retryAfter * 1000, maxBackoffMs);
+    }
+    const ceiling = Math.min((options.backoffMs ?? defaultBackoffMs) * 2 ** attempt, maxBackoffMs);
+    return Math.round(Math.random() * ceiling);
+}
+
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+    return new Promise((resolve) => {
+        const onAbort = () => {
+            clearTimeout(timer);
+            resolve();
+        };
+        const timer = setTimeout(() => {
+            signal.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal.addEventListener('abort', onAbort, {once: true});
+    });
+}
+
+// Export public API
+export {
+    encodeBody,
+    HttpClient,
+    HttpClientError
+};
+
+// Type exports
+export type {
+    HttpBody,
+    HttpClientOptions,
+    HttpRequestOptions,
+    HttpResponse,
+    RequestSigner,
+    SignableRequest
+};
@@ -0,0 +1,377 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import http from 'http';
+import path from 'path';
+import {Readable} from 'stream';
+import {appliedEncoding, decompress} from './compression';
+import {Context, RawResult, sendResult, tapResponse} from './fdk';
+import {ConflictError, FnHttpError} from './errors';
+import {log} from './logger';
+
+// Type declarations
+/**
+ * A completed response as it is replayed to duplicate calls.
+ */
+interface StoredResponse {
+    status: number;
+    // The Fn-Http-* response headers
+    headers: { [key: string]: string[] };
+    contentType?: string;
+    // Uncompressed, replays are compressed for the encodings their caller accepts
+    body: Buffer;
+    // Identifies the request the response answered, to detect keys reused for another request
+    fingerprint?: string;
+    expiresAt: number;
+}
+
+interface IdempotencyStore {
+    get(key: string): Promise<StoredResponse | undefined> | StoredResponse | undefined;
+    set(key: string, response: StoredResponse): Promise<void> | void;
+    // Marks a key as in progress across instances sharing the store, false if it already is
+    lock?(key: string, ttlMs: number): Promise<boolean> | boolean;
+    unlock?(key: string): Promise<void> | void;
+}
+
+interface IdempotencyOptions {
+    store?: IdempotencyStore;
+    // The gateway header carrying the caller's key, `Idempotency-Key` by default
+    header?: string;
+    // Fall back to the call ID for calls without the header. Fn gives every call a new ID, so only
+    // redeliveries that keep it, e.g. by a proxy in front of the function, are recognised. False by default
+    useCallID?: boolean;
+    // How long responses are replayed, 24 hours by default
+    ttlMs?: number;
+    // How long a key stays locked by a call that did not complete, 5 minutes by default
+    lockTtlMs?: number;
+    // Larger responses are not stored, 1MB by default
+    maxBodySize?: number;
+}
+
+interface FileIdempotencyStoreOptions {
+    directory: string;
+    // How often expired responses are removed, as responses are stored. 10 minutes by default
+    sweepIntervalMs?: number;
+}
+
+// Constants
+const defaultHeader = 'Idempotency-Key';
+const defaultTtlMs = 24 * 60 * 60 * 1000;
+const defaultLockTtlMs = 5 * 60 * 1000;
+const defaultMaxBodySize = 1024 * 1024;
+const defaultMaxEntries = 1000;
+const defaultSweepIntervalMs = 10 * 60 * 1000;
+const replayedHeader = 'Idempotent-Replayed';
+
+/**
+ * Keeps responses in memory, evicting the least recently used ones beyond
+ * `maxEntries`. Duplicates are only recognised by the instance that handled
+ * the first call.
+ */
+class MemoryIdempotencyStore implements IdempotencyStore {
+    private readonly entries = new Map<string, StoredResponse>();
+
+    constructor(private readonly maxEntries = defaultMaxEntries) {}
+
+    get(key: string): StoredResponse | undefined {
+        const entry = this.entries.get(key);
+        if (!entry) {
+            return undefined;
+        }
+        this.entries.delete(key);
+        if (entry.expiresAt <= Date.now()) {
+            return undefined;
+        }
+        this.entries.set(key, entry);
+        return entry;
+    }
+
+    set(key: string, response: StoredResponse): void {
+        this.entries.delete(key);
+        this.entries.set(key, response);
+        while (this.entries.size > this.maxEntries) {
+            this.entries.delete(this.entries.keys().next().value!);
+        }
+    }
+}
+
+/**
+ * Keeps responses as files in a directory, which instances of a function can
+ * share, e.g. on a mounted file system. Keys in progress are locked with a
+ * lock file.
+ */
+class FileIdempotencyStore implements IdempotencyStore {
+    private readonly directory: string;
+    private readonly sweepIntervalMs: number;
+    private lastSweep = 0;
+
+    constructor(options: FileIdempotencyStoreOptions) {
+        this.directory = options.directory;
+        this.sweepIntervalMs = options.sweepIntervalMs ?? defaultSweepIntervalMs;
+        fs.mkdirSync(this.directory, {recursive: true});
+    }
+
+    async get(key: string): Promise<StoredResponse | undefined> {
+        let data: string;
+        try {
+            data = await fs.promises.readFile(this.file(key, '.json'), 'utf8');
+        } catch (e) {
+            if ((e as NodeJS.ErrnoException).code === 'ENOENT') {
+                return undefined;
+            }
+            throw e;
+        }
+        const entry = JSON.parse(data);
+        if (entry.expiresAt <= Date.now()) {
+            await fs.promises.rm(this.file(key, '.json'), {force: true});
+            return undefined;
+        }
+        return {...entry, body: Buffer.from(entry.body, 'base64')};
+    }
+
+    async set(key: string, response: StoredResponse): Promise<void> {
+        // Written aside and renamed, so readers never see a partial file
+        const file = this.file(key, '.json');
+        const tmpFile = `${file}.${process.pid}.tmp`;
+        await fs.promises.writeFile(tmpFile, JSON.stringify({...response, body: response.body.toString('base64')}));
+        await fs.promises.rename(tmpFile, file);
+        // Responses are only removed by get() otherwise, keys never asked for again would stay forever
+        if (Date.now() - this.lastSweep >= this.sweepIntervalMs) {
+            this.lastSweep = Date.now();
+            this.sweep().catch((error) => log.warn('Unable to remove expired idempotent responses', {error}));
+        }
+    }
+
+    /**
+     * Removes the expired responses from the directory.
+     */
+    async sweep(): Promise<void> {
+        const now = Date.now();
+        for (const name of await fs.promises.readdir(this.directory)) {
+            if (!name.endsWith('.json')) {
+                continue;
+            }
+            const file = path.join(this.directory, name);
+            try {
+                const entry = JSON.parse(await fs.promises.readFile(file, 'utf8'));
+                if (entry.expiresAt <= now) {
+                    await fs.promises.rm(file, {force: true});
+                }
+            } catch (e) {
+                // Removed or replaced meanwhile by another instance
+                if ((e as NodeJS.ErrnoException).code !== 'ENOENT') {
+                    throw e;
+                }
+            }
+        }
+    }
+
+    async lock(key: string, ttlMs: number): Promise<boolean> {
+        const lockFile = this.file(key, '.lock');
+        try {
+            await fs.promises.writeFile(lockFile, String(process.pid), {flag: 'wx'});
+            return true;
+        } catch (e) {
+            if ((e as NodeJS.ErrnoException).code !== 'EEXIST') {
+                throw e;
+            }
+        }
+        // Locks of calls that never completed expire
+        const stat = await fs.promises.stat(lockFile).catch(() => null);
+        if (stat && Date.now() - stat.mtimeMs > ttlMs) {
+            await fs.promises.rm(lockFile, {force: true});
+            return this.lock(key, ttlMs);
+        }
+        return false;
+    }
+
+    async unlock(key: string): Promise<void> {
+        await fs.promises.rm(this.file(key, '.lock'), {force: true});
+    }
+
+    private file(key: string, extension: string): string {
+        return path.join(this.directory, crypto.createHash('sha256').update(key).digest('hex') + extension);
+    }
+}
+
+/**
+ * Replays the stored response of calls seen before and stores the response
+ * of new ones. A duplicate arriving while the first call is in progress
+ * waits for it, or fails with a 409 if another instance handles it.
+ */
+class IdempotencyLayer {
+    private readonly store: IdempotencyStore;
+    private readonly inFlight = new Map<string, Promise<void>>();
+
+    constructor(private readonly options: IdempotencyOptions = {}) {
+        this.store = options.store || new MemoryIdempotencyStore();
+    }
+
+    /**
+     * Runs `invoke` unless the call is a duplicate. The key stays in progress
+     * until the promise `invoke` returns settles, even if the caller
+     * disconnects before.
+     */
+    async run(ctx: Context, resp: http.ServerResponse, invoke: () => Promise<void>): Promise<void> {
+        const key = this.key(ctx);
+        if (!key) {
+            await invoke();
+            return;
+        }
+
+        let pending = this.inFlight.get(key);
+        while (pending) {
+            await pending;
+            pending = this.inFlight.get(key);
+        }
+        let release: () => void = () => undefined;
+        this.inFlight.set(key, new Promise((resolve) => {
+            release = resolve;
+        }));
+
+        let locked = false;
+        const fingerprint = requestFingerprint(ctx);
+        try {
+            const stored = await this.store.get(key);
+            if (stored) {
+                if (stored.fingerprint && fingerprint && stored.fingerprint !== fingerprint) {
+                    throw new FnHttpError(422, 'Idempotency key was already used for a different request', {
+                        code: 'IDEMPOTENCY_KEY_REUSED'
+                    });
+                }
+                this.release(key, release);
+                replay(ctx, resp, stored);
+                return;
+            }
+            if (this.store.lock) {
+                if (!await this.store.lock(key, this.options.lockTtlMs ?? defaultLockTtlMs)) {
+                    throw new ConflictError('A request with this idempotency key is in progress', {
+                        code: 'IDEMPOTENCY_KEY_IN_PROGRESS',
+                        headers: {'Retry-After': '1'}
+                    });
+                }
+                locked = true;
+            }
+        } catch (e) {
+            this.release(key, release);
+            throw e;
+        }
+
+        const chunks: Buffer[] = [];
+        let size = 0;
+        const maxBodySize = this.options.maxBodySize ?? defaultMaxBodySize;
+        tapResponse(resp, (chunk) => {
+            size += chunk.length;
+            if (size <= maxBodySize) {
+                chunks.push(chunk);
+            }
+        });
+        // Functions may still write to a response once its caller disconnected, only whole responses sent count
+        let sent = false;
+        const closed = new Promise<void>((resolve) => resp.once('close', () => {
+            sent = resp.writableFinished;
+            resolve();
+        }));
+        try {
+            await Promise.all([invoke(), closed]);
+        } finally {
+            await this.save(ctx, resp, key, fingerprint, Buffer.concat(chunks), sent && size <= maxBodySize)
+                .catch((error) => log.warn('Unable to store idempotent response', {error}))
+                .then(() => locked ? this.store.unlock?.(key) : undefined)
+                .catch((error) => log.warn('Unable to unlock idempotency key', {error}))
+                .finally(() => this.release(key, release));
+        }
+    }
+
+    private key(ctx: Context): string | null {
+        const key = ctx.httpGateway.getHeader(this.options.header || defaultHeader) ||
+            (this.options.useCallID ? ctx.callID || null : null);
+        // Functions sharing a store do not see each other's keys
+        return key ? `${ctx.appName}/${ctx.fnName}/${key}` : null;
+    }
+
+    private async save(
+        ctx: Context,
+        resp: http.ServerResponse,
+        key: string,
+        fingerprint: string | undefined,
+        body: Buffer,
+        complete: boolean
+    ): Promise<void> {
+        const status = parseInt(ctx.getResponseHeader('Fn-Http-Status') || '') || 200;
+        // Failed calls and server errors are not stored, so they can be retried
+        if (!complete || resp.statusCode !== 200 || status >= 500) {
+            return;
+        }
+        // The body is stored as the function wrote it, without the compression applied for this caller
+        const encoding = appliedEncoding(ctx);
+        if (encoding) {
+            try {
+                body = decompress(body, encoding, this.options.maxBodySize ?? defaultMaxBodySize);
+            } catch (e) {
+                if (e instanceof RangeError) {
+                    return;
+                }
+                throw e;
+            }
+        }
+        const headers: { [key: string]: string[] } = {};
+        for (const name of Object.keys(ctx.responseHeaders)) {
+            if (name.startsWith('Fn-Http-') && !(encoding && name === 'Fn-Http-H-Content-Encoding')) {
+                headers[name] = ctx.responseHeaders[name];
+            }
+        }
+        const contentType = resp.getHeader('Content-Type');
+        await this.store.set(key, {
+            status,
+            headers,
+            contentType: contentType === undefined ? undefined : String(contentType),
+            body,
+            fingerprint,
+            expiresAt: Date.now() + (this.options.ttlMs ?? defaultTtlMs)
+        });
+    }
+
+    private release(key: string, release: () => void): void {
+        this.inFlight.delete(key);
+        release();
+    }
+}
+
+function replay(ctx: Context, resp: http.ServerResponse, stored: StoredResponse): void {
+    for (const name of Object.keys(stored.headers)) {
+        ctx.setResponseHeader(name, ...stored.headers[name]);
+    }
+    ctx.httpGateway.setResponseHeader(replayedHeader, 'true');
+    ctx.responseContentType = stored.contentType;
+    sendResult(ctx, resp, new RawResult(stored.body));
+}
+
+// Streamed bodies are not fingerprinted
+function requestFingerprint(ctx: Context): string | undefined {
+    const body = ctx.body;
+    if (body instanceof Readable) {
+        return undefined;
+    }
+    return crypto.createHash('sha256')
+        .update(ctx.httpGateway.method)
+        .update('\n')
+        .update(ctx.httpGateway.requestURL)
+        .update('\n')
+        .update(Buffer.isBuffer(body) ? body : JSON.stringify(body ?? null))
+        .digest('hex');
+}
+
+// Export public API
+export {
+    FileIdempotencyStore,
+    IdempotencyLayer,
+    MemoryIdempotencyStore
+};
+
+// Type exports
+export type {
+    FileIdempotencyStoreOptions,
+    IdempotencyOptions,
+    IdempotencyStore,
+    StoredResponse
+};
@@ -0,0 +1,159 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {callFunction, InvokeRequest, HarnessResponse, waitForListener} from './harness';
+
+// Invokes a function module locally, e.g.
+//   ts-node fdk/invoke-cli.ts src/func.ts --method GET --url /hello -H 'Accept: application/json'
+const usage = `Usage: invoke-cli <module> [options]
+
+Options:
+  -X, --method <method>     HTTP gateway method (implies --gateway)
+  -u, --url <url>           HTTP gateway request URL (implies --gateway)
+  -H, --header <k: v>       Header to send, wrapped as Fn-Http-H-* for gateway calls
+  -d, --data <data>         Request body ('@file' reads the body from a file)
+  -t, --content-type <ct>   Content type of the request body
+  -c, --config <KEY=VALUE>  Function config variable
+  -g, --gateway             Emulate an HTTP gateway trigger
+  -i, --include             Print the response status and headers
+      --timeout <ms>        Invocation deadline in milliseconds (default 30000)
+`;
+
+interface CliOptions {
+    module: string;
+    request: InvokeRequest;
+    config: { [key: string]: string };
+    include: boolean;
+    timeoutMs: number;
+}
+
+function parseArgs(argv: string[]): CliOptions {
+    const options: CliOptions = {module: '', request: {}, config: {}, include: false, timeoutMs: 30000};
+    const headers: { [key: string]: string[] } = {};
+    let gateway = false;
+    let method: string | undefined;
+    let url: string | undefined;
+
+    const next = (flag: string, i: number): string => {
+        if (i >= argv.length) {
+            throw new Error(`Missing value for ${flag}`);
+        }
+        return argv[i];
+    };
+
+    for (let i = 0; i < argv.length; i++) {
+        const arg = argv[i];
+        switch (arg) {
+            case '-X': case '--method':
+                method = next(arg, ++i);
+                gateway = true;
+                break;
+            case '-u': case '--url':
+                url = next(arg, ++i);
+                gateway = true;
+                break;
+            case '-H': case '--header': {
+                const header = next(arg, ++i);
+                const sep = header.indexOf(':');
+                if (sep <= 0) {
+                    throw new Error(`Invalid header: ${header}`);
+                }
+                const key = header.substring(0, sep).trim();
+                (headers[key] = headers[key] || []).push(header.substring(sep + 1).trim());
+                break;
+            }
+            case '-d': case '--data': {
+                const data = next(arg, ++i);
+                options.request.body = data.startsWith('@') ? fs.readFileSync(data.substring(1)) : data;
+                break;
+            }
+            case '-t': case '--content-type':
+                options.request.contentType = next(arg, ++i);
+                break;
+            case '-c': case '--config': {
+                const kv = next(arg, ++i);
+                const sep = kv.indexOf('=');
+                if (sep <= 0) {
+                    throw new Error(`Invalid config: ${kv}`);
+                }
+                options.config[kv.substring(0, sep)] = kv.substring(sep + 1);
+                break;
+            }
+            case '-g': case '--gateway':
+                gateway = true;
+                break;
+            case '-i': case '--include':
+                options.include = true;
+                break;
+            case '--timeout':
+                options.timeoutMs = parseInt(next(arg, ++i));
+                break;
+            default:
+                if (arg.startsWith('-') || options.module) {
+                    throw new Error(`Unexpected argument: ${arg}`);
+                }
+                options.module = arg;
+        }
+    }
+
+    if (!options.module) {
+        throw new Error('Missing function module');
+    }
+    if (gateway) {
+        options.request.gateway = {method, url, headers};
+    } else {
+        options.request.headers = headers;
+    }
+    return options;
+}
+
+function printResponse(response: HarnessResponse, include: boolean): void {
+    if (include) {
+        process.stdout.write(`HTTP ${response.status}\n`);
+        for (const key of Object.keys(response.headers)) {
+            for (const value of response.headers[key]) {
+                process.stdout.write(`${key}: ${value}\n`);
+            }
+        }
+        process.stdout.write('\n');
+    }
+    process.stdout.write(response.body);
+    if (response.body.length > 0) {
+        process.stdout.write('\n');
+    }
+}
+
+async function main(argv: string[]): Promise<number> {
+    let options: CliOptions;
+    try {
+        options = parseArgs(argv);
+    } catch (e) {
+        console.error(`${(e as Error).message}\n\n${usage}`);
+        return 2;
+    }
+
+    const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'fdk-'));
+    const listenFile = path.join(tmpDir, 'fn.sock');
+    try {
+        Object.assign(process.env, options.config, {
+            FN_FORMAT: 'http-stream',
+            FN_LISTENER: `unix:${listenFile}`
+        });
+        // The function module calls handle() when it is loaded
+        require(path.resolve(options.module));
+        await waitForListener(listenFile, 5000);
+
+        const response = await callFunction(listenFile, options.request, options.timeoutMs);
+        printResponse(response, options.include);
+        return response.status >= 400 ? 1 : 0;
+    } catch (e) {
+        console.error(`Invocation failed: ${(e as Error).message}`);
+        return 1;
+    } finally {
+        fs.rmSync(tmpDir, {recursive: true, force: true});
+    }
+}
+
+if (require.main === module) {
+    main(process.argv.slice(2)).then((code) => process.exit(code));
+}
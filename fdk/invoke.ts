@@ -0,0 +1,265 @@
+import type {Context} from './fdk';
+import {FnHttpError, FnHttpErrorOptions} from './errors';
+import {encodeBody, HttpBody, HttpRequestOptions, HttpResponse, RequestSigner, SignableRequest} from './http-client';
+
+// Type declarations
+// A function ID or OCID, `app/fn` names, or the names as an object
+type FunctionTarget = string | { appName: string, fnName: string };
+
+interface FnClientOptions {
+    // The Fn server, or the OCI Functions invoke endpoint. Defaults to the FN_API_URL environment variable
+    endpoint?: string;
+    // Where function names are looked up, if not the endpoint, e.g. https://functions.us-ashburn-1.oraclecloud.com
+    apiEndpoint?: string;
+    // Looks names up with the OCI Functions API in this compartment instead of the Fn API
+    compartmentId?: string;
+    // Adds authentication, e.g. OCI request signing, to every request as it is sent
+    sign?: RequestSigner;
+}
+
+interface InvokeOptions {
+    // Queue the call and return once Fn accepted it, without waiting for the result
+    detached?: boolean;
+    headers?: { [key: string]: string };
+    contentType?: string;
+    // Caps the call's timeout, which is otherwise bounded by the invocation's deadline
+    timeoutMs?: number;
+}
+
+interface InvokeResponse extends HttpResponse {
+    // The call ID the callee ran with, to find its logs
+    callID: string | null;
+}
+
+interface ResolvedFunction {
+    id: string;
+    // OCI Functions return the endpoint each function is invoked at
+    invokeEndpoint?: string;
+}
+
+// Constants
+const ociFunctionIdPrefix = 'ocid1.fnfunc.';
+const ociApiVersion = '20181201';
+
+/**
+ * A call to another function that failed. The subclasses tell why; other
+ * failures carry the status Fn responded with as `calleeStatus`.
+ *
+ * Uncaught, it answers the invocation with a 502, or a 504 if the callee
+ * timed out: the failure is a dependency's, not the caller's. The message is
+ * generic, what Fn responded with is kept in `cause`. Throw an FnHttpError of
+ * your own to pass another status on.
+ */
+class FnInvokeError extends FnHttpError {
+    constructor(
+        readonly calleeStatus: number,
+        message: string,
+        readonly functionId: string,
+        readonly callID: string | null = null,
+        options: FnHttpErrorOptions = {}
+    ) {
+        super(calleeStatus === 504 ? 504 : 502, message, {code: 'FUNCTION_INVOKE_FAILED', ...options});
+    }
+}
+
+class FunctionNotFoundError extends FnInvokeError {
+    constructor(functionId: string, callID: string | null = null, detail?: string) {
+        super(404, 'Function not found', functionId, callID, {code: 'FUNCTION_NOT_FOUND', cause: causeOf(detail)});
+    }
+}
+
+// Fn has no capacity for the call, retry after `retryAfter` seconds
+class FunctionThrottledError extends FnInvokeError {
+    constructor(functionId: string, callID: string | null = null, detail?: string, readonly retryAfter?: string) {
+        super(429, 'Function invocation was throttled', functionId, callID, {code: 'FUNCTION_THROTTLED', cause: causeOf(detail)});
+    }
+}
+
+// The called function failed, e.g. it threw or exited
+class FunctionFailedError extends FnInvokeError {
+    constructor(functionId: string, callID: string | null = null, detail?: string) {
+        super(502, 'Function invocation failed', functionId, callID, {code: 'FUNCTION_FAILED', cause: causeOf(detail)});
+    }
+}
+
+class FunctionTimeoutError extends FnInvokeError {
+    constructor(functionId: string, callID: string | null = null, detail?: string) {
+        super(504, 'Function invocation timed out', functionId, callID, {code: 'FUNCTION_TIMEOUT', cause: causeOf(detail)});
+    }
+}
+
+/**
+ * Invokes other functions through Fn or OCI Functions. Calls are made with
+ * `ctx.http`, so they join the caller's trace and respect its deadline.
+ */
+class FnClient {
+    private readonly endpoint: string;
+    private readonly resolved = new Map<string, Promise<ResolvedFunction>>();
+
+    constructor(private readonly options: FnClientOptions = {}) {
+        const endpoint = options.endpoint || process.env.FN_API_URL;
+        if (!endpoint) {
+            throw new Error('No Fn endpoint, set the endpoint option or FN_API_URL');
+        }
+        this.endpoint = endpoint.replace(/\/+$/, '');
+    }
+
+    /**
+     * Invokes a function and resolves with its response, or with the 202
+     * Fn accepted a detached call with. Error responses are thrown as a
+     * `FnInvokeError`.
+     */
+    async invoke(ctx: Context, target: FunctionTarget, body?: HttpBody, options: InvokeOptions = {}): Promise<InvokeResponse> {
+        const fn = await this.resolve(ctx, target);
+        const encoded = encodeBody(body);
+        const headers: { [key: string]: string } = {...options.headers};
+        const contentType = options.contentType || encoded.contentType;
+        if (contentType) {
+            headers['Content-Type'] = contentType;
+        }
+        if (options.detached) {
+            headers['Fn-Invoke-Type'] = 'detached';
+        }
+
+        const response = await this.send(ctx, {
+            method: 'POST',
+            url: this.invokeURL(fn),
+            headers,
+            body: encoded.body,
+            timeoutMs: options.timeoutMs
+        });
+        const callID = header(response, 'fn-call-id') || header(response, 'opc-request-id');
+        if (response.status >= 400) {
+            throw invokeError(response, fn.id, callID);
+        }
+        return {...response, callID};
+    }
+
+    private resolve(ctx: Context, target: FunctionTarget): Promise<ResolvedFunction> {
+        let names = typeof target === 'string' ? null : target;
+        if (typeof target === 'string') {
+            const separator = target.indexOf('/');
+            if (separator < 0) {
+                return Promise.resolve({id: target});
+            }
+            names = {appName: target.substring(0, separator), fnName: target.substring(separator + 1)};
+        }
+
+        const key = `${names!.appName}/${names!.fnName}`;
+        let resolved = this.resolved.get(key);
+        if (!resolved) {
+            resolved = this.lookup(ctx, names!.appName, names!.fnName);
+            // Failed lookups are retried by the next call
+            resolved.catch(() => this.resolved.delete(key));
+            this.resolved.set(key, resolved);
+        }
+        return resolved;
+    }
+
+    private async lookup(ctx: Context, appName: string, fnName: string): Promise<ResolvedFunction> {
+        const base = (this.options.apiEndpoint || this.endpoint).replace(/\/+$/, '');
+        const notFound = (what: string) => new FunctionNotFoundError(`${appName}/${fnName}`, null, `${what} not found`);
+
+        if (this.options.compartmentId) {
+            const apps = await this.list(ctx, `${base}/${ociApiVersion}/applications?` +
+                new URLSearchParams({compartmentId: this.options.compartmentId, displayName: appName}));
+            if (!apps.length) {
+                throw notFound(`Application ${appName}`);
+            }
+            const fns = await this.list(ctx, `${base}/${ociApiVersion}/functions?` +
+                new URLSearchParams({applicationId: String(apps[0].id), displayName: fnName}));
+            if (!fns.length) {
+                throw notFound(`Function ${appName}/${fnName}`);
+            }
+            return {id: String(fns[0].id), invokeEndpoint: fns[0].invokeEndpoint as string | undefined};
+        }
+
+        const apps = await this.list(ctx, `${base}/v2/apps?` + new URLSearchParams({name: appName}));
+        if (!apps.length) {
+            throw notFound(`Application ${appName}`);
+        }
+        const fns = await this.list(ctx, `${base}/v2/fns?` + new URLSearchParams({app_id: String(apps[0].id), name: fnName}));
+        if (!fns.length) {
+            throw notFound(`Function ${appName}/${fnName}`);
+        }
+        return {id: String(fns[0].id)};
+    }
+
+    // The Fn API wraps lists in `items`, the OCI API returns them as they are
+    private async list(ctx: Context, url: string): Promise<{ [key: string]: unknown }[]> {
+        const response = await this.send(ctx, {method: 'GET', url});
+        if (!response.ok) {
+            throw invokeError(response, url, header(response, 'opc-request-id'));
+        }
+        const result = response.json<{ items?: { [key: string]: unknown }[] } | { [key: string]: unknown }[]>();
+        return (Array.isArray(result) ? result : result.items) || [];
+    }
+
+    // The signer runs on every attempt, after ctx.http added the trace and body headers
+    private send(ctx: Context, request: HttpRequestOptions): Promise<HttpResponse> {
+        return ctx.http.request({...request, sign: this.options.sign});
+    }
+
+    private invokeURL(fn: ResolvedFunction): string {
+        const endpoint = (fn.invokeEndpoint || this.endpoint).replace(/\/+$/, '');
+        const id = encodeURIComponent(fn.id);
+        return fn.id.startsWith(ociFunctionIdPrefix) ?
+            `${endpoint}/${ociApiVersion}/functions/${id}/actions/invoke` :
+            `${endpoint}/invoke/${id}`;
+    }
+}
+
+function header(response: HttpResponse, name: string): string | null {
+    const value = response.headers[name];
+    return (Array.isArray(value) ? value[0] : value) || null;
+}
+
+// Fn responds with `{"message": ...}`, OCI with `{"code": ..., "message": ...}`
+function invokeError(response: HttpResponse, functionId: string, callID: string | null): FnInvokeError {
+    let detail = response.text() || `Invocation failed with status ${response.status}`;
+    try {
+        const body = response.json<{ message?: string, code?: string }>();
+        detail = [body.code, body.message].filter(Boolean).join(': ') || detail;
+    } catch (e) {
+        // Not JSON, e.g. from a proxy in front of Fn
+    }
+
+    switch (response.status) {
+        case 404:
+            return new FunctionNotFoundError(functionId, callID, detail);
+        case 429:
+            return new FunctionThrottledError(functionId, callID, detail, header(response, 'retry-after') || undefined);
+        case 502:
+            return new FunctionFailedError(functionId, callID, detail);
+        case 504:
+            return new FunctionTimeoutError(functionId, callID, detail);
+        default:
+            return new FnInvokeError(response.status, `Function invocation failed with status ${response.status}`, functionId, callID, {
+                cause: causeOf(detail)
+            });
+    }
+}
+
+function causeOf(detail: string | undefined): Error | undefined {
+    return detail === undefined ? undefined : new Error(detail);
+}
+
+// Export public API
+export {
+    FnClient,
+    FnInvokeError,
+    FunctionFailedError,
+    FunctionNotFoundError,
+    FunctionThrottledError,
+    FunctionTimeoutError
+};
+
+// Type exports
+export type {
+    FnClientOptions,
+    FunctionTarget,
+    InvokeOptions,
+    InvokeResponse,
+    RequestSigner,
+    SignableRequest
+};
@@ -0,0 +1,145 @@
+import {AsyncLocalStorage} from 'async_hooks';
+import type {Context} from './fdk';
+
+// Type declarations
+type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+interface LogFields {
+    [key: string]: unknown;
+}
+
+// Constants
+const logLevels: { [level in LogLevel]: number } = {
+    debug: 10,
+    info: 20,
+    warn: 30,
+    error: 40
+};
+const defaultLogLevel: LogLevel = 'info';
+const invocationStorage = new AsyncLocalStorage<Context>();
+
+// Where debug and info lines go, warnings and errors always go to stderr
+let infoOutput: NodeJS.WritableStream = process.stdout;
+
+/**
+ * Writes JSON log lines correlated with an invocation. Lines carry the call ID,
+ * function and app names and the trace and span IDs of the invocation, if any.
+ */
+class Logger {
+    constructor(
+        private resolveContext: () => Context | undefined,
+        private fields: LogFields = {}
+    ) {}
+
+    debug(message: string, fields?: LogFields): void {
+        this.write('debug', message, fields);
+    }
+
+    info(message: string, fields?: LogFields): void {
+        this.write('info', message, fields);
+    }
+
+    warn(message: string, fields?: LogFields): void {
+        this.write('warn', message, fields);
+    }
+
+    error(message: string, fields?: LogFields): void {
+        this.write('error', message, fields);
+    }
+
+    /**
+     * Returns a logger that adds `fields` to every line.
+     */
+    child(fields: LogFields): Logger {
+        return new Logger(this.resolveContext, {...this.fields, ...fields});
+    }
+
+    isLevelEnabled(level: LogLevel): boolean {
+        const ctx = this.resolveContext();
+        return logLevels[level] >= logLevels[minimumLevel(ctx?.config.FN_LOG_LEVEL || process.env.FN_LOG_LEVEL)];
+    }
+
+    private write(level: LogLevel, message: string, fields?: LogFields): void {
+        if (!this.isLevelEnabled(level)) {
+            return;
+        }
+
+        const ctx = this.resolveContext();
+        const line: LogFields = {
+            timestamp: new Date().toISOString(),
+            level,
+            message
+        };
+        if (ctx) {
+            const span = ctx.tracingContext.span;
+            Object.assign(line, {
+                callID: ctx.callID,
+                fnName: ctx.fnName,
+                appName: ctx.appName,
+                traceId: span.traceId,
+                spanId: span.id
+            });
+        }
+        Object.assign(line, this.fields, fields);
+
+        const out = logLevels[level] >= logLevels.warn ? process.stderr : infoOutput;
+        out.write(JSON.stringify(line, serializeValue) + '\n');
+    }
+}
+
+function minimumLevel(configured: string | undefined): LogLevel {
+    const level = (configured || '').toLowerCase();
+    return level in logLevels ? level as LogLevel : defaultLogLevel;
+}
+
+function serializeValue(key: string, value: unknown): unknown {
+    if (value instanceof Error) {
+        return {name: value.name, message: value.message, stack: value.stack};
+    }
+    return value;
+}
+
+/**
+ * Runs `fn` with `ctx` as the current invocation, async work started from it
+ * is correlated with the invocation as well.
+ */
+function runWithContext<T>(ctx: Context, fn: () => T): T {
+    return invocationStorage.run(ctx, fn);
+}
+
+/**
+ * The context of the invocation the caller is running in.
+ */
+function currentContext(): Context | undefined {
+    return invocationStorage.getStore();
+}
+
+/**
+ * Sends all log lines to stderr, for formats that use stdout for responses.
+ */
+function logToStderr(): void {
+    infoOutput = process.stderr;
+}
+
+function createContextLogger(ctx: Context): Logger {
+    return new Logger(() => ctx);
+}
+
+// Logs against whichever invocation is current when a line is written
+const log = new Logger(currentContext);
+
+// Export public API
+export {
+    Logger,
+    log,
+    runWithContext,
+    currentContext,
+    createContextLogger,
+    logToStderr
+};
+
+// Type exports
+export type {
+    LogLevel,
+    LogFields
+};
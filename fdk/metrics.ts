@@ -0,0 +1,513 @@
+import http from 'http';
+import https from 'https';
+import {log} from './logger';
+
+// Type declarations
+type MetricType = 'counter' | 'gauge' | 'histogram';
+
+interface Labels {
+    [name: string]: string | number | boolean;
+}
+
+interface MetricOptions {
+    help?: string;
+    unit?: string;
+}
+
+interface HistogramOptions extends MetricOptions {
+    buckets?: number[];
+}
+
+// The state of a metric for one set of labels
+interface ValueSeries {
+    kind: 'value';
+    labels: { [name: string]: string };
+    value: number;
+}
+
+interface HistogramSeries {
+    kind: 'histogram';
+    labels: { [name: string]: string };
+    sum: number;
+    count: number;
+    // Observations per bucket, in the order of the buckets
+    counts: number[];
+}
+
+type Series = ValueSeries | HistogramSeries;
+
+interface SeriesSnapshot {
+    labels: { [name: string]: string };
+    // The count of a counter, the value of a gauge, the sum of a histogram
+    value: number;
+    count?: number;
+    buckets?: Array<{ le: number, count: number }>;
+}
+
+interface MetricSnapshot {
+    name: string;
+    type: MetricType;
+    help: string;
+    unit?: string;
+    series: SeriesSnapshot[];
+}
+
+/**
+ * Receives the current state of all metrics, periodically and once more when
+ * the function shuts down.
+ */
+interface MetricsExporter {
+    export(metrics: MetricSnapshot[]): Promise<void> | void;
+}
+
+interface OCIMonitoringExporterOptions {
+    // e.g. https://telemetry-ingestion.us-ashburn-1.oraclecloud.com, or a local stand-in
+    endpoint: string;
+    compartmentId: string;
+    namespace: string;
+    resourceGroup?: string;
+    // Added to the labels of every metric
+    dimensions?: { [name: string]: string };
+    batchSize?: number;
+    // How long the endpoint has to answer a batch, 10 seconds by default
+    timeoutMs?: number;
+    // Adds authentication, e.g. OCI request signing, to the outgoing request
+    sign?: (request: { method: string, url: string, headers: { [key: string]: string }, body: string }) =>
+        Promise<void> | void;
+}
+
+interface MetricsOptions {
+    exporters?: MetricsExporter[];
+    // How often the exporters are called, defaults to 60 seconds
+    intervalMs?: number;
+}
+
+interface InvocationOutcome {
+    status: number;
+    bytesIn: number;
+    bytesOut: number;
+}
+
+// The PostMetricData request body
+interface PostMetricDataDetails {
+    metricData: Array<{
+        namespace: string;
+        compartmentId: string;
+        resourceGroup?: string;
+        name: string;
+        dimensions: { [name: string]: string };
+        metadata?: { [key: string]: string };
+        datapoints: Array<{ timestamp: string, value: number, count?: number }>;
+    }>;
+    batchAtomicity: 'NON_ATOMIC';
+}
+
+// Constants
+const defaultBuckets = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 120, 300];
+const defaultOCIBatchSize = 50;
+const postMetricDataPath = '/20180401/metrics';
+const defaultOCITimeoutMs = 10000;
+
+abstract class Metric<TSeries extends Series = Series> {
+    protected readonly series = new Map<string, TSeries>();
+
+    constructor(readonly name: string, readonly type: MetricType, readonly options: MetricOptions) {}
+
+    abstract snapshot(): MetricSnapshot;
+
+    protected seriesFor(labels: Labels, create: (labels: { [name: string]: string }) => TSeries): TSeries {
+        const normalized = normalizeLabels(labels);
+        const key = JSON.stringify(normalized);
+        let series = this.series.get(key);
+        if (!series) {
+            series = create(normalized);
+            this.series.set(key, series);
+        }
+        return series;
+    }
+
+    protected describe(series: SeriesSnapshot[]): MetricSnapshot {
+        return {name: this.name, type: this.type, help: this.options.help || '', unit: this.options.unit, series};
+    }
+}
+
+class Counter extends Metric<ValueSeries> {
+    constructor(name: string, options: MetricOptions = {}) {
+        super(name, 'counter', options);
+    }
+
+    inc(labels: Labels = {}, value = 1): void {
+        if (value < 0) {
+            throw new RangeError(`Counter ${this.name} cannot be decreased`);
+        }
+        this.seriesFor(labels, createValueSeries).value += value;
+    }
+
+    snapshot(): MetricSnapshot {
+        return this.describe(Array.from(this.series.values(), (s) => ({labels: s.labels, value: s.value})));
+    }
+}
+
+class Gauge extends Metric<ValueSeries> {
+    constructor(name: string, options: MetricOptions = {}) {
+        super(name, 'gauge', options);
+    }
+
+    set(value: number, labels: Labels = {}): void {
+        this.seriesFor(labels, createValueSeries).value = value;
+    }
+
+    inc(labels: Labels = {}, value = 1): void {
+        this.seriesFor(labels, createValueSeries).value += value;
+    }
+
+    dec(labels: Labels = {}, value = 1): void {
+        this.inc(labels, -value);
+    }
+
+    snapshot(): MetricSnapshot {
+        return this.describe(Array.from(this.series.values(), (s) => ({labels: s.labels, value: s.value})));
+    }
+}
+
+class Histogram extends Metric<HistogramSeries> {
+    private readonly buckets: number[];
+
+    constructor(name: string, options: HistogramOptions = {}) {
+        super(name, 'histogram', options);
+        this.buckets = [...(options.buckets || defaultBuckets)].sort((a, b) => a - b);
+    }
+
+    observe(value: number, labels: Labels = {}): void {
+        const series = this.seriesFor(labels, (normalized) => ({
+            kind: 'histogram',
+            labels: normalized,
+            sum: 0,
+            count: 0,
+            counts: this.buckets.map(() => 0)
+        }));
+        series.sum += value;
+        series.count++;
+        this.buckets.forEach((le, i) => {
+            if (value <= le) {
+                series.counts[i]++;
+            }
+        });
+    }
+
+    /**
+     * Starts a timer, the returned function observes the seconds elapsed.
+     */
+    startTimer(labels: Labels = {}): (extraLabels?: Labels) => number {
+        const start = process.hrtime.bigint();
+        return (extraLabels: Labels = {}) => {
+            const seconds = Number(process.hrtime.bigint() - start) / 1e9;
+            this.observe(seconds, {...labels, ...extraLabels});
+            return seconds;
+        };
+    }
+
+    snapshot(): MetricSnapshot {
+        return this.describe(Array.from(this.series.values(), (s) => ({
+            labels: s.labels,
+            value: s.sum,
+            count: s.count,
+            buckets: this.buckets.map((le, i) => ({le, count: s.counts[i]}))
+        })));
+    }
+}
+
+/**
+ * Holds the metrics of a function. Asking for a metric that exists returns
+ * it, so metrics can be declared where they are used.
+ */
+class MetricsRegistry {
+    private readonly metrics = new Map<string, Metric>();
+    private exporters: MetricsExporter[] = [];
+    private timer: NodeJS.Timeout | null = null;
+
+    counter(name: string, options?: MetricOptions): Counter {
+        return this.getOrCreate(name, 'counter', () => new Counter(name, options)) as Counter;
+    }
+
+    gauge(name: string, options?: MetricOptions): Gauge {
+        return this.getOrCreate(name, 'gauge', () => new Gauge(name, options)) as Gauge;
+    }
+
+    histogram(name: string, options?: HistogramOptions): Histogram {
+        return this.getOrCreate(name, 'histogram', () => new Histogram(name, options)) as Histogram;
+    }
+
+    snapshot(): MetricSnapshot[] {
+        return Array.from(this.metrics.values(), (metric) => metric.snapshot());
+    }
+
+    /**
+     * Renders all metrics in the Prometheus text exposition format.
+     */
+    toPrometheus(): string {
+        return this.snapshot().map(prometheusText).join('');
+    }
+
+    /**
+     * Exports the metrics to `exporters` every `intervalMs` and when flush()
+     * is called. Replaces the exporters set before, an empty list stops exporting.
+     */
+    setExporters(exporters: MetricsExporter[], intervalMs = 60000): void {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = null;
+        }
+        this.exporters = [...exporters];
+        if (this.exporters.length > 0) {
+            this.timer = setInterval(() => this.flush(), intervalMs);
+            this.timer.unref();
+        }
+    }
+
+    async flush(): Promise<void> {
+        if (this.exporters.length === 0) {
+            return;
+        }
+        const snapshot = this.snapshot();
+        await Promise.all(this.exporters.map(async (exporter) => {
+            try {
+                await exporter.export(snapshot);
+            } catch (e) {
+                log.error('Unable to export metrics', {error: e});
+            }
+        }));
+    }
+
+    private getOrCreate(name: string, type: MetricType, create: () => Metric): Metric {
+        if (!/^[a-zA-Z_:][a-zA-Z0-9_:]*$/.test(name)) {
+            throw new TypeError(`Invalid metric name: ${name}`);
+        }
+        let metric = this.metrics.get(name);
+        if (!metric) {
+            metric = create();
+            this.metrics.set(name, metric);
+        } else if (metric.type !== type) {
+            throw new TypeError(`Metric ${name} is a ${metric.type}, not a ${type}`);
+        }
+        return metric;
+    }
+}
+
+/**
+ * Writes one log line per metric series.
+ */
+class LogMetricsExporter implements MetricsExporter {
+    export(metrics: MetricSnapshot[]): void {
+        for (const metric of metrics) {
+            for (const series of metric.series) {
+                log.info('Metric', {
+                    metric: metric.name,
+                    type: metric.type,
+                    labels: series.labels,
+                    value: series.value,
+                    count: series.count
+                });
+            }
+        }
+    }
+}
+
+/**
+ * Posts metrics to OCI Monitoring in `PostMetricData` batches. Counters and
+ * histograms are sent as the change since the last export, histograms as the
+ * mean of the observations with their count.
+ */
+class OCIMonitoringExporter implements MetricsExporter {
+    private previous = new Map<string, { value: number, count: number }>();
+
+    constructor(private options: OCIMonitoringExporterOptions) {}
+
+    async export(metrics: MetricSnapshot[]): Promise<void> {
+        const metricData = this.toMetricData(metrics);
+        const batchSize = this.options.batchSize || defaultOCIBatchSize;
+        for (let i = 0; i < metricData.length; i += batchSize) {
+            await this.post({metricData: metricData.slice(i, i + batchSize), batchAtomicity: 'NON_ATOMIC'});
+        }
+    }
+
+    toMetricData(metrics: MetricSnapshot[]): PostMetricDataDetails['metricData'] {
+        const timestamp = new Date().toISOString();
+        const metricData: PostMetricDataDetails['metricData'] = [];
+        for (const metric of metrics) {
+            for (const series of metric.series) {
+                const key = metric.name + JSON.stringify(series.labels);
+                const previous = this.previous.get(key) || {value: 0, count: 0};
+                this.previous.set(key, {value: series.value, count: series.count || 0});
+
+                let datapoint: { timestamp: string, value: number, count?: number };
+                if (metric.type === 'gauge') {
+                    datapoint = {timestamp, value: series.value};
+                } else if (metric.type === 'counter') {
+                    const delta = series.value - previous.value;
+                    if (delta === 0) {
+                        continue;
+                    }
+                    datapoint = {timestamp, value: delta};
+                } else {
+                    const count = (series.count || 0) - previous.count;
+                    if (count === 0) {
+                        continue;
+                    }
+                    datapoint = {timestamp, value: (series.value - previous.value) / count, count};
+                }
+
+                const dimensions: { [name: string]: string } = {};
+                for (const [name, value] of Object.entries({...this.options.dimensions, ...series.labels})) {
+                    // OCI rejects empty dimension values
+                    if (value) {
+                        dimensions[name] = value;
+                    }
+                }
+                metricData.push({
+                    namespace: this.options.namespace,
+                    compartmentId: this.options.compartmentId,
+                    resourceGroup: this.options.resourceGroup,
+                    name: metric.name,
+                    dimensions,
+                    metadata: metric.unit ? {unit: metric.unit} : undefined,
+                    datapoints: [datapoint]
+                });
+            }
+        }
+        return metricData;
+    }
+
+    private async post(details: PostMetricDataDetails): Promise<void> {
+        const body = JSON.stringify(details);
+        const request = {
+            method: 'POST',
+            url: this.options.endpoint.replace(/\/+$/, '') + postMetricDataPath,
+            headers: {'content-type': 'application/json', 'content-length': String(Buffer.byteLength(body))} as { [key: string]: string },
+            body
+        };
+        if (this.options.sign) {
+            await this.options.sign(request);
+        }
+
+        const target = new URL(request.url);
+        const transport = target.protocol === 'https:' ? https : http;
+        const timeoutMs = this.options.timeoutMs ?? defaultOCITimeoutMs;
+        await new Promise<void>((resolve, reject) => {
+            const req = transport.request(target, {method: request.method, headers: request.headers}, (res) => {
+                res.resume();
+                res.on('end', () => {
+                    const status = res.statusCode || 0;
+                    if (status >= 200 && status < 300) {
+                        resolve();
+                    } else {
+                        reject(new Error(`PostMetricData responded with ${status}`));
+                    }
+                });
+            });
+            req.setTimeout(timeoutMs, () => {
+                req.destroy(new Error(`PostMetricData did not respond within ${timeoutMs}ms`));
+            });
+            req.on('error', reject);
+            req.end(request.body);
+        });
+    }
+}
+
+function createValueSeries(labels: { [name: string]: string }): ValueSeries {
+    return {kind: 'value', labels, value: 0};
+}
+
+function normalizeLabels(labels: Labels): { [name: string]: string } {
+    const normalized: { [name: string]: string } = {};
+    for (const name of Object.keys(labels).sort()) {
+        normalized[name] = String(labels[name]);
+    }
+    return normalized;
+}
+
+function prometheusText(metric: MetricSnapshot): string {
+    let text = '';
+    if (metric.help) {
+        text += `# HELP ${metric.name} ${metric.help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n')}\n`;
+    }
+    text += `# TYPE ${metric.name} ${metric.type}\n`;
+    for (const series of metric.series) {
+        if (metric.type !== 'histogram') {
+            text += `${metric.name}${prometheusLabels(series.labels)} ${series.value}\n`;
+            continue;
+        }
+        for (const bucket of series.buckets || []) {
+            text += `${metric.name}_bucket${prometheusLabels({...series.labels, le: String(bucket.le)})} ${bucket.count}\n`;
+        }
+        text += `${metric.name}_bucket${prometheusLabels({...series.labels, le: '+Inf'})} ${series.count}\n`;
+        text += `${metric.name}_sum${prometheusLabels(series.labels)} ${series.value}\n`;
+        text += `${metric.name}_count${prometheusLabels(series.labels)} ${series.count}\n`;
+    }
+    return text;
+}
+
+function prometheusLabels(labels: { [name: string]: string }): string {
+    const names = Object.keys(labels);
+    if (names.length === 0) {
+        return '';
+    }
+    const escape = (v: string) => v.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+    return `{${names.map((name) => `${name}="${escape(labels[name])}"`).join(',')}}`;
+}
+
+/**
+ * Starts recording an invocation in the built-in metrics, the returned
+ * function completes the record once the response is sent.
+ */
+function startInvocation(coldStart: boolean): (outcome: InvocationOutcome) => void {
+    const inFlight = metrics.gauge('fn_in_flight_invocations', {help: 'Invocations in progress'});
+    inFlight.inc();
+    const stopTimer = metrics.histogram('fn_invocation_duration_seconds', {help: 'Invocation duration', unit: 'seconds'})
+        .startTimer({cold_start: coldStart});
+
+    return (outcome) => {
+        inFlight.dec();
+        stopTimer({status: outcome.status});
+        metrics.counter('fn_invocations_total', {help: 'Completed invocations'})
+            .inc({status: outcome.status, cold_start: coldStart});
+        metrics.counter('fn_request_bytes_total', {help: 'Request body bytes received', unit: 'bytes'})
+            .inc({}, outcome.bytesIn);
+        metrics.counter('fn_response_bytes_total', {help: 'Response body bytes sent', unit: 'bytes'})
+            .inc({}, outcome.bytesOut);
+        if (outcome.status >= 500) {
+            metrics.counter('fn_errors_total', {help: 'Invocations that failed with a 5xx status'})
+                .inc({status: outcome.status});
+        }
+    };
+}
+
+// The registry built-in and user metrics are recorded in
+const metrics = new MetricsRegistry();
+
+// Export public API
+export {
+    Counter,
+    Gauge,
+    Histogram,
+    MetricsRegistry,
+    LogMetricsExporter,
+    OCIMonitoringExporter,
+    metrics,
+    startInvocation
+};
+
+// Type exports
+export type {
+    Labels,
+    MetricType,
+    MetricOptions,
+    HistogramOptions,
+    InvocationOutcome,
+    MetricSnapshot,
+    SeriesSnapshot,
+    MetricsExporter,
+    MetricsOptions,
+    OCIMonitoringExporterOptions,
+    PostMetricDataDetails
+};
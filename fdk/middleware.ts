@@ -0,0 +1,70 @@
+import type {Context, FnHandler, FnSettings} from './fdk';
+
+// Type declarations
+type Next = () => Promise<unknown>;
+
+/**
+ * Runs around a function invocation. A middleware may change the context
+ * before calling `next()`, return a result without calling it, or catch the
+ * errors it throws. Returning a value replaces the result, returning nothing
+ * keeps the result of `next()`.
+ */
+type FnMiddleware<TSettings extends FnSettings = FnSettings> =
+    (ctx: Context<TSettings>, next: Next) => Promise<unknown> | unknown;
+
+/**
+ * Runs `middleware` in order around `terminal`, which receives the context
+ * as the middleware left it.
+ */
+function runMiddleware<TSettings extends FnSettings>(
+    middleware: FnMiddleware<TSettings>[],
+    ctx: Context<TSettings>,
+    terminal: (ctx: Context<TSettings>) => Promise<unknown> | unknown
+): Promise<unknown> {
+    let index = -1;
+
+    const dispatch = async (i: number): Promise<unknown> => {
+        if (i <= index) {
+            throw new Error('next() called multiple times');
+        }
+        index = i;
+        if (i === middleware.length) {
+            return terminal(ctx);
+        }
+
+        let downstream: unknown;
+        let calledNext = false;
+        const returned = await middleware[i](ctx, async () => {
+            calledNext = true;
+            downstream = await dispatch(i + 1);
+            return downstream;
+        });
+        return returned === undefined && calledNext ? downstream : returned;
+    };
+
+    return dispatch(0);
+}
+
+/**
+ * Builds a function from middleware and the handler they wrap, for example
+ * `handle(compose(authenticate, timing, handler))`.
+ */
+function compose<TBody = unknown, TResult = unknown, TSettings extends FnSettings = FnSettings>(
+    ...stack: [...FnMiddleware<TSettings>[], FnHandler<TBody, TResult, TSettings>]
+): FnHandler<TBody, TResult, TSettings> {
+    const middleware = stack.slice(0, -1) as FnMiddleware<TSettings>[];
+    const handler = stack[stack.length - 1] as FnHandler<TBody, TResult, TSettings>;
+    return (body, ctx) => runMiddleware(middleware, ctx, (c) => handler(c.body as TBody, c)) as Promise<TResult>;
+}
+
+// Export public API
+export {
+    compose,
+    runMiddleware
+};
+
+// Type exports
+export type {
+    FnMiddleware,
+    Next
+};
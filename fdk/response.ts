@@ -0,0 +1,312 @@
+import fs from 'fs';
+import path from 'path';
+import {Context, StreamResult} from './fdk';
+import {FnHttpError, NotFoundError} from './errors';
+
+// Type declarations
+interface FnResponseInit {
+    status?: number;
+    headers?: { [key: string]: string | string[] };
+}
+
+interface CookieOptions {
+    maxAge?: number;
+    expires?: Date;
+    path?: string;
+    domain?: string;
+    secure?: boolean;
+    httpOnly?: boolean;
+    sameSite?: 'Strict' | 'Lax' | 'None';
+}
+
+interface FileResponseOptions {
+    contentType?: string;
+    // Sent as an attachment with this file name
+    downloadName?: string;
+}
+
+// A representation of the response body per content type, values may be computed lazily
+interface Representations {
+    [contentType: string]: unknown | (() => unknown);
+}
+
+interface MediaRange {
+    type: string;
+    subtype: string;
+    q: number;
+}
+
+// Constants
+const fileContentTypes: { [extension: string]: string } = {
+    '.html': 'text/html; charset=utf-8',
+    '.htm': 'text/html; charset=utf-8',
+    '.css': 'text/css; charset=utf-8',
+    '.js': 'text/javascript; charset=utf-8',
+    '.mjs': 'text/javascript; charset=utf-8',
+    '.json': 'application/json',
+    '.txt': 'text/plain; charset=utf-8',
+    '.csv': 'text/csv; charset=utf-8',
+    '.xml': 'application/xml',
+    '.svg': 'image/svg+xml',
+    '.png': 'image/png',
+    '.jpg': 'image/jpeg',
+    '.jpeg': 'image/jpeg',
+    '.gif': 'image/gif',
+    '.webp': 'image/webp',
+    '.ico': 'image/x-icon',
+    '.pdf': 'application/pdf',
+    '.zip': 'application/zip',
+    '.gz': 'application/gzip',
+    '.wasm': 'application/wasm'
+};
+const defaultFileContentType = 'application/octet-stream';
+
+/**
+ * An HTTP response a function can return: status, headers, cookies and body.
+ * The FDK sends the status and headers to the gateway as `Fn-Http-Status` and
+ * `Fn-Http-H-*` and the body the same way as a plain result.
+ */
+class FnResponse {
+    status: number;
+    body: unknown;
+    readonly headers: { [key: string]: string[] } = {};
+    contentType?: string;
+    private cookies: string[] = [];
+
+    constructor(body?: unknown, init: FnResponseInit = {}) {
+        this.body = body;
+        this.status = init.status || 200;
+        for (const key of Object.keys(init.headers || {})) {
+            const value = init.headers![key];
+            this.setHeader(key, ...(Array.isArray(value) ? value : [value]));
+        }
+    }
+
+    static json(data: unknown, status = 200): FnResponse {
+        return new FnResponse(data, {status}).type('application/json');
+    }
+
+    static text(text: string, status = 200): FnResponse {
+        return new FnResponse(text, {status}).type('text/plain; charset=utf-8');
+    }
+
+    static html(html: string, status = 200): FnResponse {
+        return new FnResponse(html, {status}).type('text/html; charset=utf-8');
+    }
+
+    static redirect(location: string, status = 302): FnResponse {
+        return new FnResponse(undefined, {status}).setHeader('Location', location);
+    }
+
+    static noContent(): FnResponse {
+        return new FnResponse(undefined, {status: 204});
+    }
+
+    /**
+     * Streams a file. Throws a NotFoundError if it does not exist, the content
+     * type is derived from the extension unless given.
+     */
+    static file(file: string, options: FileResponseOptions = {}): FnResponse {
+        let stat: fs.Stats;
+        try {
+            stat = fs.statSync(file);
+        } catch (e) {
+            throw new NotFoundError('File not found', {cause: e});
+        }
+        if (!stat.isFile()) {
+            throw new NotFoundError('File not found');
+        }
+
+        const response = new FnResponse(new StreamResult(fs.createReadStream(file)))
+            .type(options.contentType || fileContentTypes[path.extname(file).toLowerCase()] || defaultFileContentType)
+            .setHeader('Last-Modified', stat.mtime.toUTCString());
+        if (options.downloadName) {
+            response.setHeader('Content-Disposition', contentDisposition(options.downloadName));
+        }
+        return response;
+    }
+
+    /**
+     * Picks the representation the caller prefers according to its `Accept`
+     * header, the first one if it has none. Throws a 406 if none is acceptable.
+     */
+    static negotiate(ctx: Context, representations: Representations, status = 200): FnResponse {
+        const available = Object.keys(representations);
+        const accept = ctx.httpGateway.getHeader('Accept') || ctx.getHeader('Accept');
+        const contentType = preferredContentType(accept, available);
+        if (!contentType) {
+            throw new FnHttpError(406, `Acceptable content types are ${available.join(', ')}`, {
+                code: 'NOT_ACCEPTABLE',
+                details: {available}
+            });
+        }
+
+        const representation = representations[contentType];
+        const body = typeof representation === 'function' ? representation() : representation;
+        return new FnResponse(body, {status}).type(contentType).setHeader('Vary', 'Accept');
+    }
+
+    setStatus(status: number): this {
+        this.status = status;
+        return this;
+    }
+
+    type(contentType: string): this {
+        this.contentType = contentType;
+        return this;
+    }
+
+    setHeader(key: string, ...values: string[]): this {
+        if (key.toLowerCase() === 'content-type') {
+            return this.type(values[0]);
+        }
+        if (key.toLowerCase() === 'set-cookie') {
+            this.cookies = [...values];
+            return this;
+        }
+        this.headers[key] = values;
+        return this;
+    }
+
+    addHeader(key: string, ...values: string[]): this {
+        if (key.toLowerCase() === 'set-cookie') {
+            this.cookies.push(...values);
+            return this;
+        }
+        const existing = Object.keys(this.headers).find((k) => k.toLowerCase() === key.toLowerCase());
+        if (existing) {
+            this.headers[existing].push(...values);
+        } else {
+            this.headers[key] = values;
+        }
+        return this;
+    }
+
+    cookie(name: string, value: string, options: CookieOptions = {}): this {
+        this.cookies.push(serializeCookie(name, value, options));
+        return this;
+    }
+
+    clearCookie(name: string, options: CookieOptions = {}): this {
+        return this.cookie(name, '', {...options, maxAge: 0, expires: new Date(0)});
+    }
+
+    /**
+     * Writes the status and headers to the context and returns the body, for
+     * the FDK to send like any other result.
+     */
+    prepare(ctx: Context): unknown {
+        ctx.httpGateway.statusCode = this.status;
+        for (const key of Object.keys(this.headers)) {
+            ctx.httpGateway.setResponseHeader(key, ...this.headers[key]);
+        }
+        if (this.cookies.length > 0) {
+            ctx.httpGateway.addResponseHeader('Set-Cookie', ...this.cookies);
+        }
+        if (this.contentType) {
+            ctx.responseContentType = this.contentType;
+        }
+        return this.body;
+    }
+}
+
+function serializeCookie(name: string, value: string, options: CookieOptions): string {
+    if (!/^[!#$%&'*+\-.^_`|~0-9A-Za-z]+$/.test(name)) {
+        throw new TypeError(`Invalid cookie name: ${name}`);
+    }
+    const parts = [`${name}=${encodeURIComponent(value)}`];
+    if (options.maxAge !== undefined) {
+        parts.push(`Max-Age=${Math.floor(options.maxAge)}`);
+    }
+    if (options.expires) {
+        parts.push(`Expires=${options.expires.toUTCString()}`);
+    }
+    if (options.domain) {
+        parts.push(`Domain=${options.domain}`);
+    }
+    parts.push(`Path=${options.path || '/'}`);
+    if (options.secure || options.sameSite === 'None') {
+        parts.push('Secure');
+    }
+    if (options.httpOnly) {
+        parts.push('HttpOnly');
+    }
+    if (options.sameSite) {
+        parts.push(`SameSite=${options.sameSite}`);
+    }
+    return parts.join('; ');
+}
+
+function contentDisposition(fileName: string): string {
+    const fallback = fileName.replace(/[^\x20-\x7e]|["\\]/g, '_');
+    return `attachment; filename="${fallback}"; filename*=UTF-8''${encodeURIComponent(fileName)}`;
+}
+
+/**
+ * Returns the available content type the `Accept` header ranks highest, the
+ * first available one if there is no header, or null if none is acceptable.
+ */
+function preferredContentType(accept: string | null, available: string[]): string | null {
+    if (!accept || !accept.trim()) {
+        return available[0] || null;
+    }
+
+    const ranges = parseAccept(accept);
+    let best: string | null = null;
+    let bestQ = 0;
+    for (const contentType of available) {
+        const q = acceptQuality(contentType, ranges);
+        if (q > bestQ) {
+            best = contentType;
+            bestQ = q;
+        }
+    }
+    return best;
+}
+
+// The quality of a content type is that of the most specific range matching it
+function acceptQuality(contentType: string, ranges: MediaRange[]): number {
+    const [type, subtype] = contentType.split(';')[0].trim().toLowerCase().split('/');
+    let q = 0;
+    let specificity = -1;
+    for (const range of ranges) {
+        if ((range.type !== '*' && range.type !== type) || (range.subtype !== '*' && range.subtype !== subtype)) {
+            continue;
+        }
+        const rangeSpecificity = range.type === '*' ? 0 : range.subtype === '*' ? 1 : 2;
+        if (rangeSpecificity > specificity || (rangeSpecificity === specificity && range.q > q)) {
+            q = range.q;
+            specificity = rangeSpecificity;
+        }
+    }
+    return q;
+}
+
+function parseAccept(accept: string): MediaRange[] {
+    return accept.split(',').map((part) => {
+        const [mediaType, ...params] = part.trim().split(';');
+        const [type, subtype = '*'] = mediaType.trim().toLowerCase().split('/');
+        let q = 1;
+        for (const param of params) {
+            const [key, value] = param.trim().split('=');
+            if (key === 'q') {
+                q = Math.min(1, Math.max(0, parseFloat(value) || 0));
+            }
+        }
+        return {type, subtype, q};
+    }).filter((range) => range.type);
+}
+
+// Export public API
+export {
+    FnResponse,
+    preferredContentType
+};
+
+// Type exports
+export type {
+    FnResponseInit,
+    CookieOptions,
+    FileResponseOptions,
+    Representations
+};
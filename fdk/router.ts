@@ -0,0 +1,186 @@
+import {ParsedUrlQuery} from 'querystring';
+import type {Context, FnSettings} from './fdk';
+import {BadRequestError, FnHttpError, NotFoundError} from './errors';
+import {FnResponse} from './response';
+import {validateInput, Validator} from './schema';
+
+// Type declarations
+type HTTPMethod = 'GET' | 'HEAD' | 'POST' | 'PUT' | 'PATCH' | 'DELETE' | 'OPTIONS';
+
+// The names of the `:name` and `*` segments of a route path
+type PathParamNames<P extends string> =
+    P extends `${infer Head}/${infer Tail}` ? PathParamNames<Head> | PathParamNames<Tail> :
+    P extends `:${infer Name}` ? Name :
+    P extends '*' ? '*' :
+    never;
+
+type RouteParams<P extends string> = { [K in PathParamNames<P>]: string };
+
+interface RouteMatch<P extends string = string> {
+    method: string;
+    path: string;
+    params: RouteParams<P>;
+    query: ParsedUrlQuery;
+}
+
+type RouteHandler<P extends string = string, TBody = unknown, TSettings extends FnSettings = FnSettings> =
+    (body: TBody, ctx: Context<TSettings>, route: RouteMatch<P>) => unknown;
+
+interface RouteOptions<TBody = unknown> {
+    input?: Validator<TBody>;
+}
+
+interface RouterOptions {
+    // Prefix stripped from request paths before matching, e.g. an API deployment path
+    basePath?: string;
+}
+
+type RouteMethod<TSettings extends FnSettings, TRouter> = <P extends string, TBody = unknown>(
+    path: P,
+    handler: RouteHandler<P, TBody, TSettings>,
+    options?: RouteOptions<TBody>
+) => TRouter;
+
+/**
+ * A function that dispatches gateway calls to the route matching their
+ * method and path. Pass it to handle() like any other function.
+ */
+interface Router<TSettings extends FnSettings = FnSettings> {
+    (body: unknown, ctx: Context<TSettings>): Promise<unknown>;
+    get: RouteMethod<TSettings, Router<TSettings>>;
+    post: RouteMethod<TSettings, Router<TSettings>>;
+    put: RouteMethod<TSettings, Router<TSettings>>;
+    patch: RouteMethod<TSettings, Router<TSettings>>;
+    delete: RouteMethod<TSettings, Router<TSettings>>;
+    options: RouteMethod<TSettings, Router<TSettings>>;
+    // Matches any method
+    all: RouteMethod<TSettings, Router<TSettings>>;
+}
+
+interface Route {
+    method: HTTPMethod | '*';
+    pattern: RegExp;
+    paramNames: string[];
+    handler: RouteHandler<any, any, any>;
+    options: RouteOptions<any>;
+}
+
+// Constants
+const routeMethods: { [key: string]: HTTPMethod | '*' } = {
+    get: 'GET',
+    post: 'POST',
+    put: 'PUT',
+    patch: 'PATCH',
+    delete: 'DELETE',
+    options: 'OPTIONS',
+    all: '*'
+};
+
+/**
+ * Creates a router. Paths may contain `:name` segments and end in `*`, which
+ * are passed to the handler as `route.params`:
+ *
+ *   createRouter()
+ *       .get('/users/:id', (body, ctx, {params}) => users.find(params.id))
+ *       .post('/users', (user, ctx) => users.create(user), {input: userSchema})
+ */
+function createRouter<TSettings extends FnSettings = FnSettings>(options: RouterOptions = {}): Router<TSettings> {
+    const routes: Route[] = [];
+    const basePath = (options.basePath || '').replace(/\/+$/, '');
+
+    const router = ((body: unknown, ctx: Context<TSettings>) => dispatch(routes, basePath, body, ctx)) as Router<TSettings>;
+    for (const key of Object.keys(routeMethods)) {
+        (router as any)[key] = (path: string, handler: RouteHandler, routeOptions: RouteOptions = {}) => {
+            routes.push({method: routeMethods[key], handler, options: routeOptions, ...compilePath(path)});
+            return router;
+        };
+    }
+    return router;
+}
+
+function compilePath(path: string): { pattern: RegExp, paramNames: string[] } {
+    const paramNames: string[] = [];
+    const segments = path.split('/').filter((segment) => segment).map((segment, i, all) => {
+        if (segment === '*' && i === all.length - 1) {
+            paramNames.push('*');
+            return '(?:/(.*))?';
+        }
+        if (segment.startsWith(':')) {
+            paramNames.push(segment.substring(1));
+            return '/([^/]+)';
+        }
+        return '/' + segment.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    });
+    return {pattern: new RegExp(`^${segments.join('')}/?$`, 'i'), paramNames};
+}
+
+function decodeParam(value: string): string {
+    try {
+        return decodeURIComponent(value);
+    } catch (e) {
+        throw new BadRequestError(`Invalid path segment: ${value}`, {cause: e});
+    }
+}
+
+async function dispatch(routes: Route[], basePath: string, body: unknown, ctx: Context<any>): Promise<unknown> {
+    // Calls that did not come through a gateway are routed as a POST to /
+    const method = (ctx.httpGateway.method || 'POST').toUpperCase();
+    let path = ctx.httpGateway.path;
+    if (basePath) {
+        if (path.toLowerCase() !== basePath.toLowerCase() && !path.toLowerCase().startsWith(basePath.toLowerCase() + '/')) {
+            throw new NotFoundError(`No route for ${method} ${path}`);
+        }
+        path = path.substring(basePath.length) || '/';
+    }
+
+    const allowed = new Set<string>();
+    for (const route of routes) {
+        const match = route.pattern.exec(path);
+        if (!match) {
+            continue;
+        }
+        // HEAD is served by GET routes
+        if (route.method !== '*' && route.method !== method && !(method === 'HEAD' && route.method === 'GET')) {
+            allowed.add(route.method);
+            continue;
+        }
+
+        const params: { [key: string]: string } = {};
+        route.paramNames.forEach((name, i) => {
+            params[name] = match[i + 1] === undefined ? '' : decodeParam(match[i + 1]);
+        });
+        if (route.options.input) {
+            validateInput(route.options.input, body);
+        }
+        return route.handler(body, ctx, {method, path, params, query: ctx.httpGateway.query});
+    }
+
+    if (allowed.size === 0) {
+        throw new NotFoundError(`No route for ${method} ${path}`);
+    }
+    if (allowed.has('GET')) {
+        allowed.add('HEAD');
+    }
+    allowed.add('OPTIONS');
+    const allow = Array.from(allowed).join(', ');
+    if (method === 'OPTIONS') {
+        return FnResponse.noContent().setHeader('Allow', allow);
+    }
+    throw new FnHttpError(405, `${method} is not allowed for ${path}`, {headers: {Allow: allow}});
+}
+
+// Export public API
+export {
+    createRouter
+};
+
+// Type exports
+export type {
+    HTTPMethod,
+    Router,
+    RouterOptions,
+    RouteHandler,
+    RouteMatch,
+    RouteOptions,
+    RouteParams
+};
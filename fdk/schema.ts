@@ -0,0 +1,297 @@
+import {BadRequestError} from './errors';
+
+// Type declarations
+type JSONSchemaType = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null';
+
+/**
+ * The subset of JSON Schema the FDK validates: types, enums and constants,
+ * string, number, array and object constraints and the anyOf/oneOf/allOf/not
+ * combinators. `$ref` is not supported.
+ */
+interface JSONSchema {
+    type?: JSONSchemaType | JSONSchemaType[];
+    enum?: unknown[];
+    const?: unknown;
+    minLength?: number;
+    maxLength?: number;
+    pattern?: string;
+    format?: string;
+    minimum?: number;
+    maximum?: number;
+    exclusiveMinimum?: number;
+    exclusiveMaximum?: number;
+    multipleOf?: number;
+    items?: JSONSchema;
+    minItems?: number;
+    maxItems?: number;
+    uniqueItems?: boolean;
+    properties?: { [key: string]: JSONSchema };
+    required?: string[];
+    additionalProperties?: boolean | JSONSchema;
+    minProperties?: number;
+    maxProperties?: number;
+    anyOf?: JSONSchema[];
+    oneOf?: JSONSchema[];
+    allOf?: JSONSchema[];
+    not?: JSONSchema;
+    [keyword: string]: unknown;
+}
+
+// A schema carrying the TypeScript type of the values it accepts
+type TypedJSONSchema<T> = JSONSchema & { readonly __type?: T };
+
+interface ValidationIssue {
+    path: string;
+    message: string;
+}
+
+type ValidatorFunction<T> =
+    ((value: unknown) => value is T) |
+    ((value: unknown) => boolean | string[] | ValidationIssue[]);
+
+type Validator<T = unknown> = TypedJSONSchema<T> | ValidatorFunction<T>;
+
+// Constants
+const formats: { [format: string]: RegExp } = {
+    'email': /^[^\s@]+@[^\s@]+\.[^\s@]+$/,
+    'date-time': /^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})$/i,
+    'date': /^\d{4}-\d{2}-\d{2}$/,
+    'uri': /^[a-z][a-z0-9+.-]*:[^\s]*$/i,
+    'uuid': /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+};
+
+/**
+ * Tags a JSON Schema with the type of the values it accepts, so handlers
+ * registered with it receive a typed body.
+ */
+function jsonSchema<T>(schema: JSONSchema): TypedJSONSchema<T> {
+    return schema as TypedJSONSchema<T>;
+}
+
+/**
+ * Thrown when a function returns a value that does not match its output validator.
+ */
+class OutputValidationError extends Error {
+    constructor(readonly issues: ValidationIssue[]) {
+        super(`Function output is invalid: ${describeIssues(issues)}`);
+        this.name = 'OutputValidationError';
+    }
+}
+
+/**
+ * Validates `value` and returns the problems found, an empty list if it is valid.
+ */
+function validate(validator: Validator, value: unknown): ValidationIssue[] {
+    if (typeof validator === 'function') {
+        const result = validator(value);
+        if (result === true) {
+            return [];
+        }
+        if (result === false) {
+            return [{path: '', message: 'is invalid'}];
+        }
+        return result.map((issue: string | ValidationIssue) =>
+            typeof issue === 'string' ? {path: '', message: issue} : issue);
+    }
+    const issues: ValidationIssue[] = [];
+    validateSchema(validator, value, '', issues);
+    return issues;
+}
+
+/**
+ * Throws a BadRequestError listing the problems if a request body is invalid.
+ */
+function validateInput(validator: Validator, body: unknown): void {
+    const issues = validate(validator, body);
+    if (issues.length > 0) {
+        throw new BadRequestError(`Invalid request body: ${describeIssues(issues)}`, {
+            code: 'INVALID_INPUT',
+            details: issues
+        });
+    }
+}
+
+function describeIssues(issues: ValidationIssue[]): string {
+    return issues.map((issue) => issue.path ? `${issue.path} ${issue.message}` : issue.message).join(', ');
+}
+
+function validateSchema(schema: JSONSchema, value: unknown, path: string, issues: ValidationIssue[]): void {
+    const fail = (message: string) => issues.push({path, message});
+
+    if (schema.type !== undefined) {
+        const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+        if (!types.some((type) => matchesType(type, value))) {
+            fail(`must be ${types.join(' or ')}`);
+            return;
+        }
+    }
+    if (schema.enum !== undefined && !schema.enum.some((v) => deepEqual(v, value))) {
+        fail(`must be one of ${schema.enum.map((v) => JSON.stringify(v)).join(', ')}`);
+    }
+    if (schema.const !== undefined && !deepEqual(schema.const, value)) {
+        fail(`must be ${JSON.stringify(schema.const)}`);
+    }
+
+    if (typeof value === 'string') {
+        validateString(schema, value, fail);
+    } else if (typeof value === 'number') {
+        validateNumber(schema, value, fail);
+    } else if (Array.isArray(value)) {
+        validateArray(schema, value, path, issues, fail);
+    } else if (value !== null && typeof value === 'object') {
+        validateObject(schema, value as { [key: string]: unknown }, path, issues, fail);
+    }
+
+    if (schema.allOf) {
+        schema.allOf.forEach((s) => validateSchema(s, value, path, issues));
+    }
+    if (schema.anyOf && !schema.anyOf.some((s) => isValid(s, value, path))) {
+        fail('must match at least one of the allowed schemas');
+    }
+    if (schema.oneOf && schema.oneOf.filter((s) => isValid(s, value, path)).length !== 1) {
+        fail('must match exactly one of the allowed schemas');
+    }
+    if (schema.not && isValid(schema.not, value, path)) {
+        fail('must not match the excluded schema');
+    }
+}
+
+function validateString(schema: JSONSchema, value: string, fail: (message: string) => void): void {
+    const length = Array.from(value).length;
+    if (schema.minLength !== undefined && length < schema.minLength) {
+        fail(`must have at least ${schema.minLength} characters`);
+    }
+    if (schema.maxLength !== undefined && length > schema.maxLength) {
+        fail(`must have at most ${schema.maxLength} characters`);
+    }
+    if (schema.pattern !== undefined && !new RegExp(schema.pattern, 'u').test(value)) {
+        fail(`must match pattern ${schema.pattern}`);
+    }
+    if (schema.format !== undefined && formats[schema.format] && !formats[schema.format].test(value)) {
+        fail(`must be a valid ${schema.format}`);
+    }
+}
+
+function validateNumber(schema: JSONSchema, value: number, fail: (message: string) => void): void {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+        fail(`must be >= ${schema.minimum}`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+        fail(`must be <= ${schema.maximum}`);
+    }
+    if (schema.exclusiveMinimum !== undefined && value <= schema.exclusiveMinimum) {
+        fail(`must be > ${schema.exclusiveMinimum}`);
+    }
+    if (schema.exclusiveMaximum !== undefined && value >= schema.exclusiveMaximum) {
+        fail(`must be < ${schema.exclusiveMaximum}`);
+    }
+    if (schema.multipleOf !== undefined && !Number.isInteger(value / schema.multipleOf)) {
+        fail(`must be a multiple of ${schema.multipleOf}`);
+    }
+}
+
+function validateArray(
+    schema: JSONSchema,
+    value: unknown[],
+    path: string,
+    issues: ValidationIssue[],
+    fail: (message: string) => void
+): void {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+        fail(`must have at least ${schema.minItems} items`);
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+        fail(`must have at most ${schema.maxItems} items`);
+    }
+    if (schema.uniqueItems && value.some((v, i) => value.findIndex((w) => deepEqual(v, w)) !== i)) {
+        fail('must not contain duplicate items');
+    }
+    if (schema.items) {
+        value.forEach((item, i) => validateSchema(schema.items!, item, `${path}/${i}`, issues));
+    }
+}
+
+function validateObject(
+    schema: JSONSchema,
+    value: { [key: string]: unknown },
+    path: string,
+    issues: ValidationIssue[],
+    fail: (message: string) => void
+): void {
+    const keys = Object.keys(value);
+    if (schema.minProperties !== undefined && keys.length < schema.minProperties) {
+        fail(`must have at least ${schema.minProperties} properties`);
+    }
+    if (schema.maxProperties !== undefined && keys.length > schema.maxProperties) {
+        fail(`must have at most ${schema.maxProperties} properties`);
+    }
+    for (const key of schema.required || []) {
+        if (value[key] === undefined) {
+            issues.push({path: `${path}/${key}`, message: 'is required'});
+        }
+    }
+
+    const properties = schema.properties || {};
+    for (const key of keys) {
+        const propertyPath = `${path}/${key}`;
+        if (properties[key]) {
+            validateSchema(properties[key], value[key], propertyPath, issues);
+        } else if (schema.additionalProperties === false) {
+            issues.push({path: propertyPath, message: 'is not allowed'});
+        } else if (typeof schema.additionalProperties === 'object') {
+            validateSchema(schema.additionalProperties, value[key], propertyPath, issues);
+        }
+    }
+}
+
+function isValid(schema: JSONSchema, value: unknown, path: string): boolean {
+    const issues: ValidationIssue[] = [];
+    validateSchema(schema, value, path, issues);
+    return issues.length === 0;
+}
+
+function matchesType(type: JSONSchemaType, value: unknown): boolean {
+    switch (type) {
+        case 'null': return value === null;
+        case 'array': return Array.isArray(value);
+        case 'object': return value !== null && typeof value === 'object' && !Array.isArray(value);
+        case 'integer': return Number.isInteger(value);
+        case 'number': return typeof value === 'number' && isFinite(value);
+        default: return typeof value === type;
+    }
+}
+
+function deepEqual(a: unknown, b: unknown): boolean {
+    if (a === b) {
+        return true;
+    }
+    if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) {
+        return false;
+    }
+    if (Array.isArray(a) !== Array.isArray(b)) {
+        return false;
+    }
+    const ka = Object.keys(a as object);
+    const kb = Object.keys(b as object);
+    return ka.length === kb.length &&
+        ka.every((k) => deepEqual((a as { [key: string]: unknown })[k], (b as { [key: string]: unknown })[k]));
+}
+
+// Export public API
+export {
+    jsonSchema,
+    validate,
+    validateInput,
+    describeIssues,
+    OutputValidationError
+};
+
+// Type exports
+export type {
+    JSONSchema,
+    JSONSchemaType,
+    TypedJSONSchema,
+    ValidationIssue,
+    ValidatorFunction,
+    Validator
+};
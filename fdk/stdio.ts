@@ -0,0 +1,417 @@
+import {Readable, Writable} from 'stream';
+import {finished} from 'stream/promises';
+import {StringDecoder} from 'string_decoder';
+import {
+    Context,
+    finishInvocation,
+    FnHandler,
+    FnOptions,
+    FnResponse,
+    FnResult,
+    FnSettings,
+    getInputHandler,
+    initState,
+    InputHandler,
+    loadSettings,
+    maxTimerDelayMs,
+    processHeaders,
+    runShutdownHooks,
+    runUserFunction,
+    ShutdownHook,
+    stateDisposer
+} from './fdk';
+import {FnStartupError, getErrorFormatter, toErrorInfo} from './errors';
+import {log, logToStderr, runWithContext} from './logger';
+import {startInvocation} from './metrics';
+
+// Type declarations
+// A request of the hot json format, one JSON document per call on stdin
+interface JSONFormatRequest {
+    call_id?: string;
+    content_type?: string;
+    deadline?: string;
+    body?: string;
+    protocol?: {
+        type?: string;
+        method?: string;
+        request_url?: string;
+        headers?: { [key: string]: string[] };
+    };
+}
+
+interface JSONFormatResponse {
+    body: string;
+    content_type: string;
+    protocol: {
+        status_code: number;
+        headers: { [key: string]: string[] };
+    };
+}
+
+interface RenderedResult {
+    status: number;
+    body: Buffer;
+}
+
+// Constants
+const gatewayHeaderPrefix = 'Fn-Http-H-';
+const defaultFormatHeaderPrefix = 'FN_HEADER_';
+
+/**
+ * Splits a stream of concatenated JSON documents, as sent by the agent in the
+ * json format, into the individual documents.
+ */
+class JSONDocumentSplitter {
+    private buffer = '';
+    private depth = 0;
+    private inString = false;
+    private escaped = false;
+    private decoder = new StringDecoder('utf8');
+
+    push(chunk: Buffer): string[] {
+        const documents: string[] = [];
+        const text = this.decoder.write(chunk);
+        for (const c of text) {
+            if (this.depth === 0 && c !== '{') {
+                // Whitespace between documents
+                continue;
+            }
+            this.buffer += c;
+            if (this.inString) {
+                if (this.escaped) {
+                    this.escaped = false;
+                } else if (c === '\\') {
+                    this.escaped = true;
+                } else if (c === '"') {
+                    this.inString = false;
+                }
+            } else if (c === '"') {
+                this.inString = true;
+            } else if (c === '{') {
+                this.depth++;
+            } else if (c === '}') {
+                this.depth--;
+                if (this.depth === 0) {
+                    documents.push(this.buffer);
+                    this.buffer = '';
+                }
+            }
+        }
+        return documents;
+    }
+}
+
+/**
+ * The default format: the function is started for a single call, reads the
+ * body from stdin and writes the response body to stdout. Failed calls exit
+ * with status 1.
+ */
+function handleDefault(handler: FnHandler, options: FnOptions): () => Promise<void> {
+    logToStderr();
+    const settings = loadSettings(options);
+    const inputMode = options.inputMode || 'json';
+    const env = process.env;
+
+    // Call details and request headers are passed as environment variables
+    const headers: string[] = [];
+    addHeader(headers, 'Fn-Call-Id', env.FN_CALL_ID);
+    addHeader(headers, 'Fn-Deadline', env.FN_DEADLINE);
+    addHeader(headers, 'Fn-Http-Method', env.FN_METHOD);
+    addHeader(headers, 'Fn-Http-Request-Url', env.FN_REQUEST_URL);
+    addHeader(headers, 'Content-Type', env[`${defaultFormatHeaderPrefix}CONTENT_TYPE`]);
+    for (const key of Object.keys(env)) {
+        if (key.startsWith(defaultFormatHeaderPrefix)) {
+            addHeader(headers, gatewayHeaderPrefix + key.substring(defaultFormatHeaderPrefix.length), env[key]);
+        }
+    }
+
+    const done = (async () => {
+        const state = await initState(options, settings);
+        const inputHandler = inputMode === 'stream' ? null :
+            getInputHandler(inputMode, env[`${defaultFormatHeaderPrefix}CONTENT_TYPE`], options.bodyParser);
+        const size = inputHandler ? await readInput(process.stdin, inputHandler) : 0;
+        const controller = new AbortController();
+        const ctx = new Context(env, undefined, processHeaders(headers), controller.signal, settings, state);
+        // Every call of the default format starts a new process
+        ctx.coldStart = true;
+        const stop = startInvocation(ctx.coldStart);
+        const readBody = () => inputHandler ? inputHandler.getBody() : process.stdin;
+        if (inputHandler?.dispose) {
+            ctx.afterResponse(() => inputHandler.dispose!());
+        }
+
+        const rendered = await runWithContext(ctx, () => invoke(handler, ctx, controller, options, readBody));
+        if (rendered.status >= 400) {
+            process.exitCode = 1;
+        }
+        await writeOutput(process.stdout, rendered.body);
+        stop({status: rendered.status, bytesIn: size, bytesOut: rendered.body.length});
+        await finishInvocation(ctx);
+        await runShutdownHooks(stateDisposer(options, state));
+    })().catch((error) => {
+        // Startup failures were already reported by failStartup()
+        if (!(error instanceof FnStartupError)) {
+            log.error('Function failed', {error});
+        }
+        process.exitCode = 1;
+    });
+    return () => done;
+}
+
+/**
+ * The hot json format: calls arrive on stdin as JSON documents carrying the
+ * body and headers, responses are written to stdout as JSON documents.
+ */
+function handleJSON(handler: FnHandler, options: FnOptions): () => Promise<void> {
+    logToStderr();
+    const settings = loadSettings(options);
+    const splitter = new JSONDocumentSplitter();
+    let state: unknown;
+    let dispose: ShutdownHook | undefined;
+    const ready = initState(options, settings).then((initialState) => {
+        state = initialState;
+        dispose = stateDisposer(options, initialState);
+    });
+    // Never rejects, so one failed call does not hold up the next ones or the shutdown
+    let queue: Promise<void> = ready.catch(() => undefined);
+    let shutdownPromise: Promise<void> | null = null;
+    let warm = false;
+
+    const onData = (chunk: Buffer) => {
+        for (const document of splitter.push(chunk)) {
+            const coldStart = !warm;
+            warm = true;
+            // The agent sends one call at a time, responses must keep the order of the calls
+            queue = queue
+                .then(() => ready)
+                .then(() => handleJSONCall(document, handler, options, settings, state, coldStart))
+                .catch((error) => {
+                    // Calls are not answered after a failed init, which failStartup() reported
+                    if (!(error instanceof FnStartupError)) {
+                        log.error('Unable to answer call', {error});
+                    }
+                });
+        }
+    };
+
+    const shutdown = (): Promise<void> => {
+        if (!shutdownPromise) {
+            process.stdin.removeListener('data', onData);
+            process.stdin.pause();
+            shutdownPromise = queue.then(() => runShutdownHooks(dispose));
+        }
+        return shutdownPromise;
+    };
+
+    process.stdin.on('data', onData);
+    process.stdin.once('end', () => shutdown());
+    return shutdown;
+}
+
+async function handleJSONCall(
+    document: string,
+    handler: FnHandler,
+    options: FnOptions,
+    settings: FnSettings,
+    state: unknown,
+    coldStart: boolean
+): Promise<void> {
+    let request: JSONFormatRequest;
+    try {
+        request = JSON.parse(document);
+    } catch (e) {
+        log.error('Invalid json format request', {error: e});
+        await writeJSONResponse({
+            body: JSON.stringify({message: 'Invalid request', detail: String(e)}),
+            content_type: 'application/json',
+            protocol: {status_code: 400, headers: {}}
+        });
+        return;
+    }
+
+    const headers: string[] = [];
+    const protocol = request.protocol || {};
+    const isHTTP = protocol.type === 'http';
+    addHeader(headers, 'Fn-Call-Id', request.call_id);
+    addHeader(headers, 'Fn-Deadline', request.deadline);
+    addHeader(headers, 'Content-Type', request.content_type);
+    if (isHTTP) {
+        addHeader(headers, 'Fn-Intent', 'httprequest');
+        addHeader(headers, 'Fn-Http-Method', protocol.method);
+        addHeader(headers, 'Fn-Http-Request-Url', protocol.request_url);
+    }
+    for (const key of Object.keys(protocol.headers || {})) {
+        for (const value of protocol.headers![key]) {
+            addHeader(headers, isHTTP ? gatewayHeaderPrefix + key : key, value);
+        }
+    }
+
+    const rawBody = request.body || '';
+    const inputMode = options.inputMode || 'json';
+    const inputHandler = inputMode === 'stream' ? null :
+        getInputHandler(inputMode, request.content_type, options.bodyParser);
+    inputHandler?.pushData(rawBody);
+    const readBody = () => inputHandler ? inputHandler.getBody() : Readable.from([Buffer.from(rawBody)]);
+
+    const controller = new AbortController();
+    const ctx = new Context(process.env, undefined, processHeaders(headers), controller.signal, settings, state);
+    ctx.coldStart = coldStart;
+    if (inputHandler?.dispose) {
+        ctx.afterResponse(() => inputHandler.dispose!());
+    }
+    const stop = startInvocation(ctx.coldStart);
+    const rendered = await runWithContext(ctx, () => invoke(handler, ctx, controller, options, readBody));
+
+    const status = parseInt(ctx.getResponseHeader('Fn-Http-Status') || '0') || rendered.status;
+    const responseHeaders: { [key: string]: string[] } = {};
+    for (const key of Object.keys(ctx.responseHeaders)) {
+        if (key.startsWith(gatewayHeaderPrefix)) {
+            responseHeaders[key.substring(gatewayHeaderPrefix.length)] = ctx.responseHeaders[key];
+        }
+    }
+    await writeJSONResponse({
+        body: rendered.body.toString(),
+        content_type: ctx.responseContentType || '',
+        protocol: {
+            status_code: status,
+            headers: responseHeaders
+        }
+    });
+    stop({status, bytesIn: Buffer.byteLength(rawBody), bytesOut: rendered.body.length});
+    await finishInvocation(ctx);
+}
+
+/**
+ * Decodes the body, runs the function and renders its result or error. If the
+ * call's deadline passes first its signal is aborted and a timeout error is
+ * rendered.
+ */
+function invoke(
+    handler: FnHandler,
+    ctx: Context,
+    controller: AbortController,
+    options: FnOptions,
+    readBody: () => unknown
+): Promise<RenderedResult> {
+    const run = Promise.resolve()
+        .then(() => {
+            ctx.body = readBody();
+            return runUserFunction(handler, ctx, options);
+        })
+        .then((result) => renderResult(ctx, result))
+        .catch((error) => renderError(error, ctx, options));
+
+    const deadline = ctx.deadline;
+    if (!deadline || isNaN(deadline.getTime())) {
+        return run;
+    }
+    const delay = Math.max(0, deadline.getTime() - Date.now());
+    if (delay > maxTimerDelayMs) {
+        return run;
+    }
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<RenderedResult>((resolve) => {
+        timer = setTimeout(() => {
+            controller.abort(new Error(`Deadline ${deadline.toISOString()} exceeded`));
+            ctx.responseContentType = 'application/json';
+            resolve({
+                status: 504,
+                body: Buffer.from(JSON.stringify({
+                    message: 'Function timed out',
+                    detail: `Function did not complete before its deadline of ${deadline.toISOString()}`
+                }))
+            });
+        }, delay);
+    });
+    return Promise.race([run, timeout]).finally(() => clearTimeout(timer));
+}
+
+async function renderResult(ctx: Context, result: unknown): Promise<RenderedResult> {
+    if (result instanceof FnResponse) {
+        result = result.prepare(ctx);
+    }
+    if (result == null) {
+        return {status: 200, body: Buffer.alloc(0)};
+    }
+    if (result instanceof FnResult) {
+        return {status: 200, body: await collectResult(ctx, result)};
+    }
+
+    const contentType = ctx.responseContentType;
+    if (!contentType || contentType.startsWith('application/json') || contentType.includes('+json')) {
+        ctx.responseContentType = contentType || 'application/json';
+        return {status: 200, body: Buffer.from(JSON.stringify(result))};
+    }
+    if (typeof result === 'string' || Buffer.isBuffer(result)) {
+        return {status: 200, body: Buffer.from(result)};
+    }
+    return {status: 200, body: Buffer.alloc(0)};
+}
+
+function renderError(error: unknown, ctx: Context, options: FnOptions): RenderedResult {
+    const info = toErrorInfo(error, options.exposeErrors === true);
+    if (info.status < 500) {
+        log.warn('Function rejected the request', {error});
+    } else {
+        log.error('Function error', {error});
+    }
+    const formatted = getErrorFormatter(options.errorFormat)(info, ctx);
+    ctx.responseContentType = formatted.contentType;
+    return {status: info.status, body: Buffer.from(JSON.stringify(formatted.body))};
+}
+
+// FnResults write to a response stream, collect what they write
+async function collectResult(ctx: Context, result: FnResult): Promise<Buffer> {
+    const chunks: Buffer[] = [];
+    const sink = new Writable({
+        write(chunk: Buffer, encoding, callback) {
+            chunks.push(Buffer.from(chunk));
+            callback();
+        }
+    });
+    await result.writeResult(ctx, sink);
+    if (!sink.writableEnded) {
+        sink.end();
+    }
+    await finished(sink);
+    return Buffer.concat(chunks);
+}
+
+// Feeds a stream to an input handler, resolves to the number of bytes read
+async function readInput(stream: NodeJS.ReadableStream, inputHandler: InputHandler): Promise<number> {
+    let size = 0;
+    for await (const chunk of stream) {
+        size += chunk.length;
+        inputHandler.pushData(chunk);
+    }
+    return size;
+}
+
+function addHeader(rawHeaders: string[], key: string, value: string | undefined): void {
+    if (value) {
+        rawHeaders.push(key, value);
+    }
+}
+
+function writeJSONResponse(response: JSONFormatResponse): Promise<void> {
+    return writeOutput(process.stdout, JSON.stringify(response) + '\n');
+}
+
+function writeOutput(out: NodeJS.WritableStream, data: Buffer | string): Promise<void> {
+    return new Promise((resolve, reject) => {
+        out.write(data, (err?: Error | null) => err ? reject(err) : resolve());
+    });
+}
+
+// Export public API
+export {
+    handleDefault,
+    handleJSON,
+    JSONDocumentSplitter
+};
+
+// Type exports
+export type {
+    JSONFormatRequest,
+    JSONFormatResponse
+};
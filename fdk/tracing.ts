@@ -0,0 +1,258 @@
+import crypto from 'crypto';
+import http from 'http';
+import https from 'https';
+import url from 'url';
+import {log} from './logger';
+
+// Type declarations
+type SpanKind = 'SERVER' | 'CLIENT' | 'PRODUCER' | 'CONSUMER';
+
+interface ZipkinSpan {
+    traceId: string;
+    id: string;
+    parentId?: string;
+    name: string;
+    kind?: SpanKind;
+    timestamp: number;
+    duration: number;
+    localEndpoint: { serviceName: string };
+    tags?: { [key: string]: string };
+}
+
+interface SpanOptions {
+    name: string;
+    serviceName: string;
+    traceId: string;
+    id?: string;
+    parentId?: string | null;
+    kind?: SpanKind;
+    sampled: boolean;
+    exporter?: ZipkinExporter;
+}
+
+interface ZipkinExporterOptions {
+    batchSize?: number;
+    flushIntervalMs?: number;
+    // How long the collector has to answer an export
+    timeoutMs?: number;
+}
+
+// Constants
+const defaultBatchSize = 100;
+const defaultFlushIntervalMs = 1000;
+const defaultExportTimeoutMs = 5000;
+const exporters = new Map<string, ZipkinExporter>();
+
+/**
+ * A unit of work within an invocation. Finished spans are handed to the
+ * exporter if tracing is enabled and the trace is sampled.
+ */
+class Span {
+    readonly traceId: string;
+    readonly id: string;
+    readonly parentId?: string;
+    readonly sampled: boolean;
+    readonly tags: { [key: string]: string } = {};
+    name: string;
+    kind?: SpanKind;
+
+    private readonly serviceName: string;
+    private readonly exporter?: ZipkinExporter;
+    private readonly timestamp = Date.now() * 1000;
+    private readonly startedAt = process.hrtime.bigint();
+    private ended = false;
+
+    constructor(options: SpanOptions) {
+        this.name = options.name;
+        this.serviceName = options.serviceName;
+        this.traceId = options.traceId;
+        this.id = options.id || randomId(8);
+        this.parentId = options.parentId || undefined;
+        this.kind = options.kind;
+        this.sampled = options.sampled;
+        this.exporter = options.exporter;
+    }
+
+    setTag(key: string, value: string | number | boolean): this {
+        this.tags[key] = String(value);
+        return this;
+    }
+
+    /**
+     * Starts a span that is a child of this one.
+     */
+    startChild(name: string, kind?: SpanKind): Span {
+        return new Span({
+            name,
+            kind,
+            serviceName: this.serviceName,
+            traceId: this.traceId,
+            parentId: this.id,
+            sampled: this.sampled,
+            exporter: this.exporter
+        });
+    }
+
+    /**
+     * Headers that propagate this span to an outbound call, in both B3 and
+     * W3C trace context form.
+     */
+    propagationHeaders(): { [key: string]: string } {
+        const headers: { [key: string]: string } = {
+            'X-B3-TraceId': this.traceId,
+            'X-B3-SpanId': this.id,
+            'X-B3-Sampled': this.sampled ? '1' : '0',
+            'traceparent': `00-${this.traceId.padStart(32, '0')}-${this.id}-${this.sampled ? '01' : '00'}`
+        };
+        if (this.parentId) {
+            headers['X-B3-ParentSpanId'] = this.parentId;
+        }
+        return headers;
+    }
+
+    end(): void {
+        if (this.ended) {
+            return;
+        }
+        this.ended = true;
+        if (this.exporter && this.sampled) {
+            this.exporter.add(this.toZipkin());
+        }
+    }
+
+    toZipkin(): ZipkinSpan {
+        const span: ZipkinSpan = {
+            traceId: this.traceId,
+            id: this.id,
+            name: this.name,
+            timestamp: this.timestamp,
+            duration: Math.max(1, Number((process.hrtime.bigint() - this.startedAt) / BigInt(1000))),
+            localEndpoint: {serviceName: this.serviceName}
+        };
+        if (this.parentId) {
+            span.parentId = this.parentId;
+        }
+        if (this.kind) {
+            span.kind = this.kind;
+        }
+        if (Object.keys(this.tags).length > 0) {
+            span.tags = {...this.tags};
+        }
+        return span;
+    }
+}
+
+/**
+ * Batches finished spans and posts them to a collector in Zipkin v2 JSON format.
+ */
+class ZipkinExporter {
+    private queue: ZipkinSpan[] = [];
+    private timer: NodeJS.Timeout | null = null;
+    private pending = new Set<Promise<void>>();
+    private readonly batchSize: number;
+    private readonly flushIntervalMs: number;
+    private readonly timeoutMs: number;
+
+    constructor(private collectorUrl: string, options: ZipkinExporterOptions = {}) {
+        this.batchSize = options.batchSize || defaultBatchSize;
+        this.flushIntervalMs = options.flushIntervalMs || defaultFlushIntervalMs;
+        this.timeoutMs = options.timeoutMs || defaultExportTimeoutMs;
+    }
+
+    add(span: ZipkinSpan): void {
+        this.queue.push(span);
+        if (this.queue.length >= this.batchSize) {
+            this.flush();
+        } else if (!this.timer) {
+            this.timer = setTimeout(() => this.flush(), this.flushIntervalMs);
+            this.timer.unref();
+        }
+    }
+
+    flush(): Promise<void> {
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = null;
+        }
+        if (this.queue.length > 0) {
+            const batch = this.queue;
+            this.queue = [];
+            const p = this.post(batch).catch((e: Error) => {
+                log.error(`Unable to export ${batch.length} span(s) to ${this.collectorUrl}`, {error: e});
+            }).then(() => {
+                this.pending.delete(p);
+            });
+            this.pending.add(p);
+        }
+        return Promise.all(this.pending).then(() => undefined);
+    }
+
+    private post(batch: ZipkinSpan[]): Promise<void> {
+        const body = JSON.stringify(batch);
+        const target = url.parse(this.collectorUrl);
+        const transport = target.protocol === 'https:' ? https : http;
+
+        return new Promise((resolve, reject) => {
+            const req = transport.request({
+                ...target,
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    'Content-Length': Buffer.byteLength(body)
+                }
+            }, (res) => {
+                res.resume();
+                res.on('end', () => {
+                    const status = res.statusCode || 0;
+                    if (status >= 200 && status < 300) {
+                        resolve();
+                    } else {
+                        reject(new Error(`collector responded with ${status}`));
+                    }
+                });
+            });
+            req.setTimeout(this.timeoutMs, () => {
+                req.destroy(new Error(`collector did not respond within ${this.timeoutMs}ms`));
+            });
+            req.on('error', reject);
+            req.end(body);
+        });
+    }
+}
+
+function randomId(bytes: number): string {
+    return crypto.randomBytes(bytes).toString('hex');
+}
+
+/**
+ * Returns the shared exporter for a collector URL.
+ */
+function getZipkinExporter(collectorUrl: string): ZipkinExporter {
+    let exporter = exporters.get(collectorUrl);
+    if (!exporter) {
+        exporter = new ZipkinExporter(collectorUrl);
+        exporters.set(collectorUrl, exporter);
+    }
+    return exporter;
+}
+
+function flushZipkinExporters(): Promise<void> {
+    return Promise.all(Array.from(exporters.values()).map((e) => e.flush())).then(() => undefined);
+}
+
+// Export public API
+export {
+    Span,
+    ZipkinExporter,
+    randomId,
+    getZipkinExporter,
+    flushZipkinExporters
+};
+
+// Type exports
+export type {
+    SpanKind,
+    SpanOptions,
+    ZipkinSpan,
+    ZipkinExporterOptions
+};
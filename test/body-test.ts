@@ -0,0 +1,95 @@
+import fs from 'fs';
+import test from 'tape';
+import {MultipartBody} from '../fdk/body';
+import {invoke} from '../fdk/harness';
+
+const boundary = 'XyZ123';
+
+function multipart(parts: Array<{ name: string, filename?: string, contentType?: string, data: string | Buffer }>): Buffer {
+    const chunks: Buffer[] = [];
+    for (const part of parts) {
+        let head = `--${boundary}\r\nContent-Disposition: form-data; name="${part.name}"`;
+        if (part.filename) {
+            head += `; filename="${part.filename}"`;
+        }
+        head += part.contentType ? `\r\nContent-Type: ${part.contentType}\r\n\r\n` : '\r\n\r\n';
+        chunks.push(Buffer.from(head), Buffer.from(part.data), Buffer.from('\r\n'));
+    }
+    chunks.push(Buffer.from(`--${boundary}--\r\n`));
+    return Buffer.concat(chunks);
+}
+
+const upload = multipart([
+    {name: 'title', data: 'Report'},
+    {name: 'tag', data: 'a'},
+    {name: 'tag', data: 'b'},
+    {name: 'file', filename: 'data.bin', contentType: 'application/octet-stream', data: Buffer.from([0, 1, 2, 255])}
+]);
+const multipartType = `multipart/form-data; boundary=${boundary}`;
+
+test('Form bodies are decoded in auto mode', async (t) => {
+    const res = await invoke((body) => body, {body: 'a=1&b=x%20y&a=2', contentType: 'application/x-www-form-urlencoded'}, {inputMode: 'auto'});
+    t.deepEqual(res.json(), {a: ['1', '2'], b: 'x y'});
+    t.end();
+});
+
+test('Text and binary bodies are decoded by their content type', async (t) => {
+    const latin1 = await invoke((body) => body, {body: Buffer.from([0x63, 0x61, 0x66, 0xe9]), contentType: 'text/plain; charset=iso-8859-1'}, {inputMode: 'auto'});
+    t.equal(latin1.json(), 'café');
+    const binary = await invoke((body) => Buffer.isBuffer(body), {body: Buffer.from([1, 2]), contentType: 'application/octet-stream'}, {inputMode: 'auto'});
+    t.equal(binary.json(), true);
+    t.end();
+});
+
+test('Multipart bodies are decoded into fields and files', async (t) => {
+    const res = await invoke((body: MultipartBody) => ({
+        fields: body.fields,
+        files: body.files.map((file) => ({...file, data: file.data && Array.from(file.data)}))
+    }), {body: upload, contentType: multipartType}, {inputMode: 'auto'});
+    t.deepEqual(res.json(), {
+        fields: {title: 'Report', tag: ['a', 'b']},
+        files: [{fieldName: 'file', filename: 'data.bin', contentType: 'application/octet-stream', size: 4, data: [0, 1, 2, 255]}]
+    });
+    t.end();
+});
+
+test('Multipart files can be streamed to disk and are removed after the response', async (t) => {
+    let file = '';
+    const res = await invoke((body: MultipartBody) => {
+        file = body.files[0].path!;
+        return fs.readFileSync(file).length;
+    }, {body: upload, contentType: multipartType}, {inputMode: 'auto', bodyParser: {multipart: {fileStorage: 'disk'}}});
+    t.equal(res.json(), 4);
+    t.ok(file, 'the file has a path');
+    for (let i = 0; i < 50 && fs.existsSync(file); i++) {
+        await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+    t.notOk(fs.existsSync(file), 'the temporary file was removed');
+    t.end();
+});
+
+test('Multipart limits and malformed bodies are rejected', async (t) => {
+    const gateway = {method: 'POST', url: '/'};
+    const tooBig = await invoke((body) => body, {body: upload, contentType: multipartType, gateway},
+        {inputMode: 'auto', bodyParser: {multipart: {maxFileSize: 3}}});
+    t.equal(tooBig.status, 413);
+    const tooMany = await invoke((body) => body, {body: upload, contentType: multipartType, gateway},
+        {inputMode: 'auto', bodyParser: {multipart: {maxFields: 2}}});
+    t.equal(tooMany.status, 413);
+    const noBoundary = await invoke((body) => body, {body: upload, contentType: 'multipart/form-data', gateway}, {inputMode: 'auto'});
+    t.equal(noBoundary.status, 400);
+    t.equal((noBoundary.json() as { code: string }).code, 'INVALID_MULTIPART');
+    const truncated = await invoke((body) => body, {body: upload.subarray(0, upload.length - 12), contentType: multipartType, gateway}, {inputMode: 'auto'});
+    t.equal(truncated.status, 400);
+    t.end();
+});
+
+test('Strict JSON rejects bodies that do not parse', async (t) => {
+    const gateway = {method: 'POST', url: '/'};
+    const lenient = await invoke((body) => body, {body: '{oops', contentType: 'application/json'});
+    t.equal(lenient.json(), '{oops', 'passed on as a string by default');
+    const strict = await invoke((body) => body, {body: '{oops', contentType: 'application/json', gateway}, {bodyParser: {strictJSON: true}});
+    t.equal(strict.status, 400);
+    t.equal((strict.json() as { code: string }).code, 'INVALID_JSON');
+    t.end();
+});
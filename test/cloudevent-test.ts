@@ -0,0 +1,112 @@
+import {spawnSync} from 'child_process';
+import path from 'path';
+import test from 'tape';
+import {CloudEvent} from '../fdk/cloudevent';
+import {invoke} from '../fdk/harness';
+
+const cloudevent = {config: {FN_FORMAT: 'cloudevent'}};
+const order = {specversion: '1.0', id: 'evt-1', source: '/shop', type: 'com.example.order'};
+
+test('Structured CloudEvents are decoded and answered in kind', async (t) => {
+    let received: CloudEvent | undefined;
+    const res = await invoke((event: CloudEvent) => {
+        received = event;
+        return {accepted: true};
+    }, {
+        body: JSON.stringify({...order, data: {total: 5}}),
+        contentType: 'application/cloudevents+json'
+    }, {}, cloudevent);
+    t.deepEqual(received && received.data, {total: 5});
+    t.deepEqual(res.fnHeaders['content-type'], 'application/cloudevents+json');
+    const event = res.json() as CloudEvent;
+    t.equal(event.type, 'com.example.order.response');
+    t.ok(event.source.startsWith('/fn/'), 'sourced from the function');
+    t.deepEqual(event.data, {accepted: true});
+    t.end();
+});
+
+test('Binary CloudEvents from a gateway answer with Ce-* headers the caller sees', async (t) => {
+    const res = await invoke((event: CloudEvent) => ({id: event.id, subject: event.subject}), {
+        body: JSON.stringify({total: 5}),
+        contentType: 'application/json',
+        gateway: {
+            method: 'POST',
+            url: '/events',
+            headers: {'Ce-Specversion': '1.0', 'Ce-Id': 'evt-2', 'Ce-Source': '/shop', 'Ce-Type': 'com.example.order', 'Ce-Subject': 'a%20b'}
+        }
+    }, {}, cloudevent);
+    t.equal(res.status, 200);
+    t.deepEqual(res.headers['ce-type'], ['com.example.order.response']);
+    t.deepEqual(res.headers['ce-specversion'], ['1.0']);
+    t.notOk(res.fnHeaders['ce-type'], 'not sent as a raw Fn header');
+    t.deepEqual(res.json(), {id: 'evt-2', subject: 'a b'});
+    t.end();
+});
+
+test('Binary CloudEvents without a gateway answer with raw Ce-* headers', async (t) => {
+    const res = await invoke(() => 'done', {
+        body: '',
+        headers: {'Ce-Specversion': '1.0', 'Ce-Id': 'evt-3', 'Ce-Source': '/shop', 'Ce-Type': 'com.example.order'}
+    }, {}, cloudevent);
+    t.equal(res.fnHeaders['ce-type'], 'com.example.order.response');
+    t.equal(res.text(), 'done');
+    t.end();
+});
+
+test('Invalid CloudEvents are rejected with a 400', async (t) => {
+    const missing = await invoke(() => 'never', {
+        body: JSON.stringify({specversion: '1.0', id: 'x'}),
+        contentType: 'application/cloudevents+json',
+        gateway: {method: 'POST', url: '/'}
+    }, {}, cloudevent);
+    t.equal(missing.status, 400);
+    t.deepEqual((missing.json() as { details: unknown }).details, {missing: ['source', 'type']});
+    const plain = await invoke(() => 'never', {body: 'hi', contentType: 'text/plain', gateway: {method: 'POST', url: '/'}}, {}, cloudevent);
+    t.equal(plain.status, 400);
+    t.end();
+});
+
+// The default and json formats serve calls over stdin and stdout, the default format a single one per process
+function runStdioFormat(format: '' | 'json', script: string, input: string): { status: number | null, stdout: string, stderr: string } {
+    const result = spawnSync(process.execPath, ['-r', 'ts-node/register', '-e', script], {
+        cwd: path.join(__dirname, '..'),
+        input,
+        encoding: 'utf8',
+        timeout: 60000,
+        env: {...process.env, FN_FORMAT: format, FN_LOG_LEVEL: 'error', TS_NODE_TRANSPILE_ONLY: 'true'}
+    });
+    return {status: result.status, stdout: result.stdout, stderr: result.stderr};
+}
+
+test('The default format answers a call on stdout', (t) => {
+    const result = runStdioFormat('', "require('./fdk/fdk').handle((body) => ({echo: body}))", '{"a": 1}');
+    t.equal(result.status, 0);
+    t.deepEqual(JSON.parse(result.stdout), {echo: {a: 1}});
+    t.end();
+});
+
+test('A default format call that cannot start exits with a failure instead of an unhandled rejection', (t) => {
+    const result = runStdioFormat('', "require('./fdk/fdk').handle(() => 1, {" +
+        "init: () => { throw new Error('no db'); }, onStartupError: () => undefined})", '');
+    t.equal(result.status, 1);
+    const lines = result.stderr.split('\n').filter((line) => line);
+    t.ok(lines.every((line) => line.startsWith('{')), 'only log lines, no uncaught rejection');
+    t.ok(result.stderr.includes('Function init failed'), 'the failure is logged');
+    t.end();
+});
+
+test('A json format call that fails to answer does not hold up the next ones or the shutdown', (t) => {
+    // The first response cannot be written, as if stdout was closed
+    const script = "const write = process.stdout.write.bind(process.stdout); let failed = false;" +
+        "process.stdout.write = (data, callback) => failed ? write(data, callback) :" +
+        "  (failed = true, process.nextTick(callback, new Error('EPIPE')), true);" +
+        "require('./fdk/fdk').handle((body) => ({echo: body}), {dispose: () => console.error('disposed')})";
+    const call = (id: string) => JSON.stringify({call_id: id, body: id, content_type: 'application/json'});
+    const result = runStdioFormat('json', script, call('1') + '\n' + call('2') + '\n');
+    t.equal(result.status, 0, 'no unhandled rejection');
+    const responses = result.stdout.split('\n').filter((line) => line).map((line) => JSON.parse(line));
+    t.deepEqual(responses.map((r) => JSON.parse(r.body)), [{echo: 2}], 'the next call is answered');
+    t.ok(result.stderr.includes('Unable to answer call'), 'the failure is logged');
+    t.ok(result.stderr.includes('disposed'), 'the state is disposed of at shutdown');
+    t.end();
+});
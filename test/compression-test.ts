@@ -0,0 +1,69 @@
+import express from 'express';
+import test from 'tape';
+import zlib from 'zlib';
+import {negotiateEncoding} from '../fdk/compression';
+import {FnResponse} from '../fdk/fdk';
+import {GatewayRequest, invoke} from '../fdk/harness';
+
+const large = {items: Array.from({length: 200}, (v, i) => ({id: i, name: `item ${i}`}))};
+
+function gateway(acceptEncoding?: string): GatewayRequest {
+    return {method: 'GET', url: '/', headers: acceptEncoding ? {'Accept-Encoding': acceptEncoding} : {}};
+}
+
+test('Encodings are negotiated by quality, then preference', (t) => {
+    t.equal(negotiateEncoding('gzip, deflate, br'), 'br');
+    t.equal(negotiateEncoding('gzip;q=1, br;q=0.5'), 'gzip');
+    t.equal(negotiateEncoding('*;q=0.1, br;q=0'), 'gzip');
+    t.equal(negotiateEncoding('identity'), null);
+    t.equal(negotiateEncoding('br, gzip', ['gzip']), 'gzip');
+    t.end();
+});
+
+test('Large responses are compressed with the accepted encoding', async (t) => {
+    const gzip = await invoke(() => large, {gateway: gateway('gzip')}, {compression: true});
+    t.deepEqual(gzip.headers['content-encoding'], ['gzip']);
+    t.deepEqual(gzip.headers['vary'], ['Accept-Encoding']);
+    t.deepEqual(JSON.parse(zlib.gunzipSync(gzip.body).toString()), large);
+
+    const br = await invoke(() => large, {gateway: gateway('br')}, {compression: true});
+    t.deepEqual(JSON.parse(zlib.brotliDecompressSync(br.body).toString()), large);
+    t.end();
+});
+
+test('Small, uncompressible and unaccepted responses are sent as they are', async (t) => {
+    const small = await invoke(() => ({ok: true}), {gateway: gateway('gzip')}, {compression: true});
+    t.notOk(small.headers['content-encoding'], 'below the threshold');
+    t.deepEqual(small.headers['vary'], ['Accept-Encoding'], 'still varies');
+
+    const image = await invoke(() => new FnResponse(Buffer.alloc(4096)).type('image/png'),
+        {gateway: gateway('gzip')}, {compression: true});
+    t.notOk(image.headers['content-encoding'], 'not a compressible type');
+
+    const identity = await invoke(() => large, {gateway: gateway()}, {compression: true});
+    t.notOk(identity.headers['content-encoding'], 'no Accept-Encoding');
+    t.deepEqual(identity.json(), large);
+
+    const disabled = await invoke(() => large, {gateway: gateway('gzip')});
+    t.notOk(disabled.headers['content-encoding'], 'compression is opt-in');
+    t.end();
+});
+
+test('Compression options set the threshold and encodings', async (t) => {
+    const res = await invoke(() => ({ok: true}), {gateway: gateway('br, deflate')},
+        {compression: {threshold: 0, encodings: ['deflate']}});
+    t.deepEqual(res.headers['content-encoding'], ['deflate']);
+    t.deepEqual(JSON.parse(zlib.inflateSync(res.body).toString()), {ok: true});
+    t.end();
+});
+
+test('Express responses are compressed too', async (t) => {
+    const app = express();
+    app.get('/', (req, res) => {
+        res.json(large);
+    });
+    const res = await invoke(app, {gateway: gateway('gzip')}, {compression: true});
+    t.deepEqual(res.headers['content-encoding'], ['gzip']);
+    t.deepEqual(JSON.parse(zlib.gunzipSync(res.body).toString()), large);
+    t.end();
+});
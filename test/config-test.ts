@@ -0,0 +1,77 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import test from 'tape';
+import {ConfigError, defineConfig, parseDuration} from '../fdk/config';
+import {invoke} from '../fdk/harness';
+
+const config = defineConfig({
+    DB_URL: {type: 'url', required: true, protocols: ['postgres']},
+    POOL_SIZE: {type: 'number', default: 4, integer: true, min: 1},
+    DEBUG: {type: 'boolean', default: false},
+    MODE: {type: 'string', enum: ['fast', 'safe'], env: 'APP_MODE'},
+    LIMITS: {type: 'json', schema: {type: 'object', required: ['max']}},
+    TIMEOUT: {type: 'duration', default: '30s'}
+});
+
+test('Config values are coerced to their types with defaults applied', (t) => {
+    const values = config.load({DB_URL: 'postgres://db:5432/app', DEBUG: 'yes', APP_MODE: 'safe', LIMITS: '{"max": 3}'});
+    t.ok(values.DB_URL instanceof URL);
+    t.equal(values.DB_URL.port, '5432');
+    t.equal(values.POOL_SIZE, 4);
+    t.equal(values.DEBUG, true);
+    t.equal(values.MODE, 'safe', 'read from the env name');
+    t.deepEqual(values.LIMITS, {max: 3});
+    t.equal(values.TIMEOUT, 30000);
+    t.end();
+});
+
+test('Every config problem is reported at once', (t) => {
+    try {
+        config.load({POOL_SIZE: '2.5', DEBUG: 'maybe', APP_MODE: 'slow', LIMITS: '{}', TIMEOUT: 'soon'});
+        t.fail('load() should throw');
+    } catch (e) {
+        t.ok(e instanceof ConfigError);
+        t.deepEqual((e as ConfigError).problems, [
+            'DB_URL is required',
+            'POOL_SIZE must be an integer',
+            'DEBUG must be a boolean (true/false, yes/no, on/off or 1/0)',
+            'APP_MODE must be one of fast, safe',
+            'LIMITS is invalid: /max is required',
+            'TIMEOUT must be a duration such as 500ms, 30s, 5m or 1h30m'
+        ]);
+    }
+    t.throws(() => config.load({DB_URL: 'https://db'}), /DB_URL must use one of the protocols postgres/);
+    t.end();
+});
+
+test('Config values may be read from a _FILE', (t) => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'fdk-config-'));
+    try {
+        const file = path.join(dir, 'db-url');
+        fs.writeFileSync(file, 'postgres://secret@db/app\n');
+        t.equal(config.load({DB_URL_FILE: file}).DB_URL.username, 'secret', 'the trailing newline is dropped');
+        t.throws(() => config.load({DB_URL: 'postgres://db', DB_URL_FILE: file}), /DB_URL and DB_URL_FILE are both set/);
+        t.throws(() => config.load({DB_URL_FILE: path.join(dir, 'missing')}), /DB_URL_FILE could not be read/);
+    } finally {
+        fs.rmSync(dir, {recursive: true, force: true});
+    }
+    t.end();
+});
+
+test('Durations are read as milliseconds', (t) => {
+    t.equal(parseDuration('1500'), 1500);
+    t.equal(parseDuration('250ms'), 250);
+    t.equal(parseDuration('1h30m'), 90 * 60 * 1000);
+    t.equal(parseDuration('1.5s'), 1500);
+    t.throws(() => parseDuration('5 minutes'));
+    t.end();
+});
+
+test('Functions receive the loaded settings', async (t) => {
+    const res = await invoke((input, ctx) => ({pool: ctx.settings.POOL_SIZE, url: ctx.settings.DB_URL.href}), {}, {config}, {
+        config: {DB_URL: 'postgres://db/app', POOL_SIZE: '8'}
+    });
+    t.deepEqual(res.json(), {pool: 8, url: 'postgres://db/app'});
+    t.end();
+});
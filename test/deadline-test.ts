@@ -0,0 +1,53 @@
+import test from 'tape';
+import {invoke} from '../fdk/harness';
+
+function waitForAbort(signal: AbortSignal): Promise<void> {
+    return new Promise((resolve) => signal.addEventListener('abort', () => resolve(), {once: true}));
+}
+
+test('deadline aborts the signal and answers with a 504', async (t) => {
+    let aborted = false;
+    const res = await invoke(async (body, ctx) => {
+        await waitForAbort(ctx.signal);
+        aborted = ctx.signal.aborted;
+        return 'too late';
+    }, {deadline: new Date(Date.now() + 300)});
+    t.equal(res.status, 504);
+    t.equal((res.json() as { message: string }).message, 'Function timed out');
+    t.ok(aborted, 'signal aborted');
+    t.end();
+});
+
+test('deadline fires the grace period early', async (t) => {
+    const startedAt = Date.now();
+    let abortedAfter = 0;
+    const res = await invoke(async (body, ctx) => {
+        await waitForAbort(ctx.signal);
+        abortedAfter = Date.now() - startedAt;
+    }, {deadline: new Date(Date.now() + 1500)}, {deadlineGraceMs: 1200});
+    t.equal(res.status, 504);
+    t.ok(abortedAfter < 1200, `aborted after ${abortedAfter}ms`);
+    t.end();
+});
+
+test('functions that finish in time are not aborted', async (t) => {
+    let signal: AbortSignal | undefined;
+    const res = await invoke((body, ctx) => {
+        signal = ctx.signal;
+        return 'on time';
+    }, {deadline: new Date(Date.now() + 5000)});
+    t.equal(res.status, 200);
+    t.equal(res.json(), 'on time');
+    t.notOk(signal!.aborted);
+    t.end();
+});
+
+test('deadlines beyond the timer range are not enforced at once', async (t) => {
+    const res = await invoke(async () => {
+        await new Promise((resolve) => setTimeout(resolve, 50));
+        return 'ok';
+    }, {deadline: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000)});
+    t.equal(res.status, 200);
+    t.equal(res.json(), 'ok');
+    t.end();
+});
@@ -0,0 +1,96 @@
+import express from 'express';
+import test from 'tape';
+import {ConflictError, FnHttpError, NotFoundError, toErrorInfo} from '../fdk/errors';
+import {invoke} from '../fdk/harness';
+
+test('Unexpected errors hide their detail and stack by default', async (t) => {
+    const res = await invoke(() => {
+        throw new Error('db password is hunter2');
+    }, {gateway: {method: 'GET', url: '/'}});
+    t.equal(res.status, 502);
+    const body = res.json() as { [key: string]: unknown };
+    t.equal(body.code, 'FUNCTION_ERROR');
+    t.notOk('detail' in body, 'no detail');
+    t.notOk('stack' in body, 'no stack');
+    t.notOk(res.text().includes('hunter2'));
+    t.end();
+});
+
+test('exposeErrors includes the detail and stack', async (t) => {
+    const res = await invoke(() => {
+        throw new Error('db unreachable');
+    }, {}, {exposeErrors: true});
+    const body = res.json() as { [key: string]: string };
+    t.equal(body.detail, 'Error: db unreachable');
+    t.ok(body.stack.includes('errors-test'), 'has the stack');
+    t.end();
+});
+
+test('Express errors are answered like function errors', async (t) => {
+    const app = express();
+    app.get('/', () => {
+        throw new Error('db password is hunter2');
+    });
+    app.get('/missing', () => {
+        throw new NotFoundError('No such user');
+    });
+    const hidden = await invoke(app, {gateway: {method: 'GET', url: '/'}});
+    t.equal(hidden.status, 502);
+    t.notOk(hidden.text().includes('hunter2'), 'no detail');
+
+    const exposed = await invoke(app, {gateway: {method: 'GET', url: '/'}}, {exposeErrors: true, errorFormat: 'problem+json'});
+    const body = exposed.json() as { [key: string]: string };
+    t.equal(body.cause, 'Error: db password is hunter2');
+    t.ok(body.stack, 'has the stack');
+
+    const missing = await invoke(app, {gateway: {method: 'GET', url: '/missing'}});
+    t.equal(missing.status, 404);
+    t.deepEqual(missing.json(), {message: 'No such user', code: 'NOT_FOUND'});
+    t.end();
+});
+
+test('FnHttpErrors answer gateway calls with their status and headers', async (t) => {
+    const res = await invoke(() => {
+        throw new ConflictError('User is locked', {code: 'USER_LOCKED', headers: {'Retry-After': '30'}, details: {id: 7}});
+    }, {gateway: {method: 'POST', url: '/users/7'}});
+    t.equal(res.status, 409);
+    t.deepEqual(res.headers['retry-after'], ['30']);
+    t.deepEqual(res.json(), {message: 'User is locked', code: 'USER_LOCKED', details: {id: 7}});
+    t.end();
+});
+
+test('problem+json errors follow RFC 7807', async (t) => {
+    const res = await invoke(() => {
+        throw new NotFoundError('No such user');
+    }, {callID: 'CALL-404', gateway: {method: 'GET', url: '/users/8'}}, {errorFormat: 'problem+json'});
+    t.equal(res.status, 404);
+    t.deepEqual(res.headers['content-type'], ['application/problem+json']);
+    t.deepEqual(res.json(), {
+        type: 'about:blank',
+        title: 'Not Found',
+        status: 404,
+        detail: 'No such user',
+        code: 'NOT_FOUND',
+        instance: 'urn:fn:call:CALL-404'
+    });
+    t.end();
+});
+
+test('Custom error formatters shape the body', async (t) => {
+    const res = await invoke(() => {
+        throw new FnHttpError(422, 'Bad shape');
+    }, {gateway: {method: 'POST', url: '/'}}, {
+        errorFormat: (error) => ({contentType: 'application/vnd.error+json', body: {error: error.code}})
+    });
+    t.equal(res.status, 422);
+    t.deepEqual(res.json(), {error: 'UNPROCESSABLE_ENTITY'});
+    t.end();
+});
+
+test('toErrorInfo only exposes causes when asked to', (t) => {
+    const error = new FnHttpError(503, undefined, {cause: new Error('pool exhausted')});
+    t.deepEqual(toErrorInfo(error, false), {status: 503, code: 'SERVICE_UNAVAILABLE', message: 'Service Unavailable'});
+    t.equal(toErrorInfo(error, true).detail, 'Error: pool exhausted');
+    t.equal(new NotFoundError().name, 'NotFoundError');
+    t.end();
+});
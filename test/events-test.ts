@@ -0,0 +1,116 @@
+import test from 'tape';
+import {decodeEvents, decodeStreamValue, eventHandler, FnEvent, FnEventMetadata} from '../fdk/events';
+import {invoke} from '../fdk/harness';
+
+// Payloads as OCI delivers them
+const objectCreated = {
+    eventType: 'com.oraclecloud.objectstorage.createobject',
+    cloudEventsVersion: '0.1',
+    eventTypeVersion: '2.0',
+    source: 'ObjectStorage',
+    eventTime: '2024-01-02T03:04:05Z',
+    contentType: 'application/json',
+    eventID: 'unique-id-1',
+    data: {
+        compartmentId: 'ocid1.compartment.oc1..aaa',
+        resourceName: 'report.csv',
+        resourceId: '/n/ns/b/bucket/o/report.csv',
+        additionalDetails: {bucketName: 'bucket'}
+    }
+};
+
+const logEntry = {
+    id: 'log-1',
+    source: 'ocid1.apigateway.oc1..bbb',
+    specversion: '1.0',
+    type: 'com.oraclecloud.apigateway.apideployment.access',
+    time: '2024-01-02T03:04:06Z',
+    data: {status: 200},
+    oracle: {compartmentid: 'ocid1.compartment.oc1..aaa', logid: 'ocid1.log.oc1..ccc'}
+};
+
+function streamMessage(offset: number, value: unknown): { [key: string]: unknown } {
+    return {
+        stream: 'orders',
+        partition: '0',
+        key: Buffer.from('customer-7').toString('base64'),
+        value: Buffer.from(JSON.stringify(value)).toString('base64'),
+        offset,
+        timestamp: 1704164645000
+    };
+}
+
+const alarm = {
+    dedupeKey: 'dedupe-1',
+    title: 'CPU high',
+    type: 'OK_TO_FIRING',
+    severity: 'CRITICAL',
+    timestampEpochMillis: 1704164645000,
+    alarmMetaData: [{id: 'ocid1.alarm.oc1..ddd', status: 'FIRING'}],
+    version: 1.2
+};
+
+test('OCI events, log entries, stream messages and alarms are unwrapped', (t) => {
+    const [event, log, message, notification, other] = decodeEvents([objectCreated, logEntry, streamMessage(42, {id: 1}), alarm, {x: 1}]);
+    t.equal(event.kind, 'oci-event');
+    t.equal(event.id, 'unique-id-1');
+    t.equal(event.type, 'com.oraclecloud.objectstorage.createobject');
+    t.equal(event.resourceName, 'report.csv');
+    t.equal(event.compartmentId, 'ocid1.compartment.oc1..aaa');
+    t.equal(event.batchSize, 5);
+
+    t.equal(log.kind, 'log');
+    t.deepEqual(log.data, {status: 200});
+
+    t.equal(message.kind, 'stream-message');
+    t.deepEqual(message.data, {id: 1});
+    t.deepEqual(message.stream, {name: 'orders', partition: '0', offset: 42, key: 'customer-7'});
+    t.equal(message.time, '2024-01-02T03:04:05.000Z');
+
+    t.equal(notification.kind, 'alarm');
+    t.equal(notification.id, 'dedupe-1');
+
+    t.equal(other.kind, 'unknown');
+    t.equal(other.index, 4);
+    t.end();
+});
+
+test('Stream values decode to JSON, text or bytes', (t) => {
+    t.deepEqual(decodeStreamValue(Buffer.from('{"a":1}').toString('base64')), {a: 1});
+    t.equal(decodeStreamValue(Buffer.from('plain text').toString('base64')), 'plain text');
+    const bytes = Buffer.from([0xff, 0xfe, 0x00]);
+    t.ok((decodeStreamValue(bytes.toString('base64')) as Buffer).equals(bytes));
+    t.end();
+});
+
+test('A single event is passed through with its metadata on ctx.event', async (t) => {
+    let seen: FnEventMetadata | undefined;
+    const res = await invoke(eventHandler((event: FnEvent, ctx) => {
+        seen = ctx.event;
+        return {name: event.resourceName};
+    }), {body: objectCreated});
+    t.deepEqual(res.json(), {name: 'report.csv'});
+    t.equal(seen && seen.id, 'unique-id-1');
+    t.notOk(seen && 'data' in seen, 'metadata only');
+    t.end();
+});
+
+test('Batches report the items that failed', async (t) => {
+    const batch = [streamMessage(1, {ok: true}), streamMessage(2, {ok: false}), streamMessage(3, {ok: true})];
+    const handler = (event: FnEvent<{ ok: boolean }>) => {
+        if (!event.data.ok) {
+            throw new Error('not ok');
+        }
+        return event.stream!.offset;
+    };
+
+    const failed = await invoke(eventHandler(handler), {body: batch, gateway: {method: 'POST', url: '/'}});
+    t.equal(failed.status, 502);
+    const error = failed.json() as { code: string, details: unknown };
+    t.equal(error.code, 'EVENT_BATCH_FAILED');
+    t.deepEqual(error.details, [{index: 1, id: 'orders/0/2', message: 'not ok'}]);
+
+    const tolerated = await invoke(eventHandler(handler, {ignoreItemErrors: true}), {body: batch});
+    t.deepEqual(tolerated.json(), {processed: 2, failed: [{index: 1, id: 'orders/0/2', message: 'not ok'}], results: [1, 3]});
+    t.end();
+});
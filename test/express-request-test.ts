@@ -0,0 +1,83 @@
+import express from 'express';
+import test from 'tape';
+import {invoke} from '../fdk/harness';
+
+// What describeRequest() answers with
+interface SeenRequest {
+    authorization: string | null;
+    ip: string;
+    hostname: string;
+    protocol: string;
+    secure: boolean;
+    path: string;
+    query: { [key: string]: string };
+    headers: { [key: string]: string };
+}
+
+function describeRequest(): express.Express {
+    const app = express();
+    app.use((req, res) => {
+        res.json({
+            authorization: req.get('Authorization') || null,
+            ip: req.ip,
+            hostname: req.hostname,
+            protocol: req.protocol,
+            secure: req.secure,
+            path: req.path,
+            query: req.query,
+            headers: req.headers
+        });
+    });
+    return app;
+}
+
+test('Express requests see the unwrapped gateway headers, lowercased', async (t) => {
+    const res = await invoke(describeRequest(), {
+        gateway: {
+            method: 'GET',
+            url: 'https://api.example.com/users/7?expand=orders',
+            headers: {'Authorization': 'Bearer token', 'X-Custom': ['a', 'b']}
+        }
+    });
+    const seen = res.json() as SeenRequest;
+    t.equal(seen.authorization, 'Bearer token');
+    t.equal(seen.headers['x-custom'], 'a, b');
+    t.notOk(Object.keys(seen.headers).some((name) => name.startsWith('fn-')), 'no Fn headers');
+    t.notOk(Object.keys(seen.headers).some((name) => name !== name.toLowerCase()), 'names are lowercased');
+    t.equal(seen.path, '/users/7');
+    t.deepEqual(seen.query, {expand: 'orders'});
+    t.end();
+});
+
+test('Express requests take host and protocol from the request URL', async (t) => {
+    const res = await invoke(describeRequest(), {gateway: {method: 'GET', url: 'https://api.example.com/'}});
+    const seen = res.json() as SeenRequest;
+    t.equal(seen.hostname, 'api.example.com');
+    t.equal(seen.protocol, 'https');
+    t.equal(seen.secure, true);
+    t.end();
+});
+
+test('Express requests fall back to X-Forwarded-* for a relative request URL', async (t) => {
+    const res = await invoke(describeRequest(), {
+        gateway: {
+            method: 'GET',
+            url: '/relative',
+            headers: {'Host': 'fn.example.com', 'X-Forwarded-Proto': 'https', 'X-Forwarded-For': '203.0.113.9, 10.0.0.1'}
+        }
+    });
+    const seen = res.json() as SeenRequest;
+    t.equal(seen.hostname, 'fn.example.com');
+    t.equal(seen.protocol, 'https');
+    t.equal(seen.ip, '203.0.113.9');
+    t.end();
+});
+
+test('Express requests without forwarding headers look local and plain HTTP', async (t) => {
+    const res = await invoke(describeRequest(), {gateway: {method: 'GET', url: '/'}});
+    const seen = res.json() as SeenRequest;
+    t.equal(seen.ip, '127.0.0.1');
+    t.equal(seen.protocol, 'http');
+    t.equal(seen.secure, false);
+    t.end();
+});
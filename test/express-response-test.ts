@@ -0,0 +1,71 @@
+import express from 'express';
+import test from 'tape';
+import {invoke} from '../fdk/harness';
+
+test('Express responses keep multi-value headers and cookies', async (t) => {
+    const app = express();
+    app.get('/cookies', (req, res) => {
+        res.cookie('a', '1');
+        res.cookie('b', '2', {httpOnly: true});
+        res.append('X-Multi', 'one');
+        res.append('X-Multi', 'two');
+        res.send('ok');
+    });
+    const res = await invoke(app, {gateway: {method: 'GET', url: '/cookies'}});
+    t.deepEqual(res.headers['set-cookie'], ['a=1; Path=/', 'b=2; Path=/; HttpOnly']);
+    t.deepEqual(res.headers['x-multi'], ['one', 'two']);
+    t.end();
+});
+
+test('Express responses support the ServerResponse header API', async (t) => {
+    const seen: { [key: string]: unknown } = {};
+    const app = express();
+    app.get('/headers', (req, res) => {
+        res.setHeader('X-Remove', 'gone');
+        res.setHeader('X-Keep', 'kept');
+        seen.names = res.getHeaderNames().filter((name) => name.startsWith('x-'));
+        seen.has = res.hasHeader('x-keep');
+        res.removeHeader('X-Remove');
+        seen.removed = !res.hasHeader('X-Remove');
+        res.statusMessage = 'Teapot Time';
+        res.status(418).end();
+        seen.headersSent = res.headersSent;
+    });
+    const res = await invoke(app, {gateway: {method: 'GET', url: '/headers'}});
+    t.equal(res.status, 418);
+    t.deepEqual(res.headers['x-keep'], ['kept']);
+    t.notOk(res.headers['x-remove']);
+    t.deepEqual(seen, {names: ['x-powered-by', 'x-remove', 'x-keep'], has: true, removed: true, headersSent: true});
+    t.end();
+});
+
+test('Express bodies pass through byte for byte', async (t) => {
+    const binary = Buffer.from([0, 255, 1, 254, 128, 10, 13]);
+    const app = express();
+    app.get('/binary', (req, res) => {
+        res.type('application/octet-stream').send(binary);
+    });
+    app.get('/not-json', (req, res) => {
+        res.type('application/json').send('{not json');
+    });
+    const bin = await invoke(app, {gateway: {method: 'GET', url: '/binary'}});
+    t.ok(bin.body.equals(binary), 'binary body unchanged');
+    const text = await invoke(app, {gateway: {method: 'GET', url: '/not-json'}});
+    t.equal(text.status, 200);
+    t.equal(text.text(), '{not json');
+    t.end();
+});
+
+test('Express responses emit finish and close', async (t) => {
+    const events: string[] = [];
+    const app = express();
+    app.get('/events', (req, res) => {
+        res.on('finish', () => events.push('finish'));
+        res.on('close', () => events.push('close'));
+        res.send('done');
+    });
+    const res = await invoke(app, {gateway: {method: 'GET', url: '/events'}});
+    t.equal(res.text(), 'done');
+    t.deepEqual(events, ['finish', 'close']);
+    t.end();
+});
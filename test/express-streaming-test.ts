@@ -0,0 +1,84 @@
+import express from 'express';
+import {Readable} from 'stream';
+import test from 'tape';
+import {invoke} from '../fdk/harness';
+import {delay, openCall, startFunction} from './helpers';
+
+test('Express writes are streamed with the head mapped up front', async (t) => {
+    const app = express();
+    app.get('/events', async (req, res) => {
+        res.status(206).set('X-Stream', 'yes');
+        res.write('first\n');
+        await delay(300);
+        res.end('last\n');
+    });
+    const fn = await startFunction(app);
+    try {
+        const startedAt = Date.now();
+        const res = await openCall(fn.listenFile, 'GET', '/events');
+        t.ok(Date.now() - startedAt < 250, 'head sent before the route ended');
+        t.equal(res.headers['fn-http-status'], '206');
+        t.equal(res.headers['fn-http-h-x-stream'], 'yes');
+
+        const chunks: { text: string, at: number }[] = [];
+        res.on('data', (chunk: Buffer) => chunks.push({text: chunk.toString(), at: Date.now() - startedAt}));
+        await new Promise((resolve) => res.on('end', resolve));
+        t.equal(chunks.map((c) => c.text).join(''), 'first\nlast\n');
+        t.ok(chunks[0].at < 250, `first chunk after ${chunks[0].at}ms`);
+    } finally {
+        await fn.close();
+        fn.remove();
+    }
+    t.end();
+});
+
+test('Express routes can pipe streams to the response', async (t) => {
+    const app = express();
+    app.get('/download', (req, res) => {
+        res.type('text/csv');
+        Readable.from(Array.from({length: 1000}, (_, i) => `${i},row\n`)).pipe(res);
+    });
+    const res = await invoke(app, {gateway: {method: 'GET', url: '/download'}});
+    t.equal(res.status, 200);
+    t.match(res.headers['content-type'][0], /^text\/csv/);
+    const lines = res.text().trim().split('\n');
+    t.equal(lines.length, 1000);
+    t.equal(lines[999], '999,row');
+    t.end();
+});
+
+test('Express output after the deadline is dropped instead of crashing', async (t) => {
+    const uncaught: Error[] = [];
+    const onUncaught = (error: Error) => uncaught.push(error);
+    process.on('uncaughtException', onUncaught);
+
+    let answered: () => void = () => undefined;
+    const routesDone = new Promise<void>((resolve) => {
+        let pending = 2;
+        answered = () => --pending === 0 ? resolve() : undefined;
+    });
+    const app = express();
+    app.get('/json', async (req, res) => {
+        await delay(500);
+        res.status(200).json({late: true});
+        answered();
+    });
+    app.get('/write', async (req, res) => {
+        await delay(500);
+        res.write('late');
+        res.end(() => answered());
+    });
+    try {
+        const json = await invoke(app, {gateway: {method: 'GET', url: '/json'}, deadline: new Date(Date.now() + 300)});
+        t.equal(json.status, 504);
+        const written = await invoke(app, {gateway: {method: 'GET', url: '/write'}, deadline: new Date(Date.now() + 300)});
+        t.equal(written.status, 504);
+        t.equal((written.json() as { message: string }).message, 'Function timed out');
+        await routesDone;
+        await delay(50);
+    } finally {
+        process.removeListener('uncaughtException', onUncaught);
+    }
+    t.deepEqual(uncaught.map((e) => e.message), [], 'no uncaught exceptions');
+    t.end();
+});
@@ -0,0 +1,29 @@
+// Runs every FDK test suite in one process, as `npm test` does.
+// Function logs would interleave with the TAP output, only errors are kept.
+process.env.FN_LOG_LEVEL = process.env.FN_LOG_LEVEL || 'error';
+
+import './harness-test';
+import './deadline-test';
+import './shutdown-test';
+import './input-test';
+import './express-streaming-test';
+import './express-response-test';
+import './express-request-test';
+import './frameworks-test';
+import './tracing-test';
+import './logger-test';
+import './errors-test';
+import './schema-test';
+import './config-test';
+import './middleware-test';
+import './response-test';
+import './router-test';
+import './cloudevent-test';
+import './events-test';
+import './metrics-test';
+import './lifecycle-test';
+import './body-test';
+import './compression-test';
+import './idempotency-test';
+import './http-client-test';
+import './invoke-test';
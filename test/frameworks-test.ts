@@ -0,0 +1,130 @@
+import http from 'http';
+import test from 'tape';
+import {FnStartupError} from '../fdk/errors';
+import {FastifyApp, KoaApp, nodeListener, registerFrameworkAdapter} from '../fdk/frameworks';
+import {FnHarness, invoke} from '../fdk/harness';
+
+// Stand-ins with the shape the adapters detect, the frameworks are not dependencies of the FDK
+function fakeKoa(listener: (req: http.IncomingMessage, res: http.ServerResponse) => void): KoaApp & { callbacks: number } {
+    const app = {
+        middleware: [],
+        callbacks: 0,
+        use: () => app,
+        callback: () => {
+            app.callbacks++;
+            return listener;
+        }
+    };
+    return app;
+}
+
+function fakeFastify(): FastifyApp {
+    return {
+        route: () => undefined,
+        inject: async (options) => {
+            const chunks: Buffer[] = [];
+            for await (const chunk of options.payload as AsyncIterable<Buffer>) {
+                chunks.push(chunk);
+            }
+            return {
+                statusCode: 201,
+                headers: {'content-type': 'application/json', 'x-remote': String(options.remoteAddress)},
+                rawPayload: Buffer.from(JSON.stringify({
+                    method: options.method,
+                    url: options.url,
+                    body: Buffer.concat(chunks).toString()
+                }))
+            };
+        }
+    };
+}
+
+test('Koa apps are served through their callback, created once', async (t) => {
+    const app = fakeKoa((req, res) => {
+        res.setHeader('Content-Type', 'text/plain');
+        res.end(`koa ${req.method} ${req.url}`);
+    });
+    const harness = new FnHarness(app);
+    await harness.start();
+    try {
+        const first = await harness.invoke({gateway: {method: 'GET', url: '/a'}});
+        const second = await harness.invoke({gateway: {method: 'GET', url: '/b'}});
+        t.equal(first.text(), 'koa GET /a');
+        t.equal(second.text(), 'koa GET /b');
+        t.equal(app.callbacks, 1);
+    } finally {
+        await harness.close();
+    }
+    t.end();
+});
+
+test('Fastify apps are served through inject', async (t) => {
+    const res = await invoke(fakeFastify(), {
+        body: 'hello',
+        gateway: {method: 'POST', url: '/items?x=1', headers: {'X-Forwarded-For': '198.51.100.4'}}
+    });
+    t.equal(res.status, 201);
+    t.deepEqual(res.json(), {method: 'POST', url: '/items?x=1', body: 'hello'});
+    t.deepEqual(res.headers['x-remote'], ['198.51.100.4']);
+    t.end();
+});
+
+test('Fastify inject failures are answered like function errors', async (t) => {
+    const app = fakeFastify();
+    app.inject = () => Promise.reject(new Error('connect ECONNREFUSED 10.0.0.5:5432'));
+    const res = await invoke(app, {gateway: {method: 'GET', url: '/'}});
+    t.equal(res.status, 502);
+    t.equal((res.json() as { code: string }).code, 'FUNCTION_ERROR');
+    t.notOk(res.text().includes('10.0.0.5'), 'no detail');
+
+    const exposed = await invoke(app, {gateway: {method: 'GET', url: '/'}}, {exposeErrors: true});
+    t.equal((exposed.json() as { detail: string }).detail, 'Error: connect ECONNREFUSED 10.0.0.5:5432');
+    t.end();
+});
+
+test('Node request listeners are served when marked with nodeListener()', async (t) => {
+    const listener = nodeListener((req: http.IncomingMessage, res: http.ServerResponse) => {
+        let body = '';
+        req.on('data', (chunk) => {
+            body += chunk;
+        });
+        req.on('end', () => {
+            res.statusCode = 202;
+            res.setHeader('X-Listener', 'yes');
+            res.end(body.toUpperCase());
+        });
+    });
+    const res = await invoke(listener, {body: 'plain', gateway: {method: 'PUT', url: '/'}});
+    t.equal(res.status, 202);
+    t.deepEqual(res.headers['x-listener'], ['yes']);
+    t.equal(res.text(), 'PLAIN');
+    t.end();
+});
+
+test('Registered adapters take precedence', async (t) => {
+    // Any handler can be claimed by an adapter, this one is a plain function
+    const marker = () => undefined;
+    registerFrameworkAdapter({
+        name: 'custom-test',
+        detect: (handler) => handler === marker,
+        handle: (handler, ctx, resp) => {
+            resp.setHeader('Fn-Http-Status', '200');
+            resp.end('custom');
+        }
+    });
+    const res = await invoke(marker, {});
+    t.equal(res.text(), 'custom');
+    t.end();
+});
+
+test('An unknown framework option fails startup', async (t) => {
+    const harness = new FnHarness(fakeKoa(() => undefined), {framework: 'hapi'});
+    try {
+        await harness.start();
+        t.fail('start() should reject');
+    } catch (e) {
+        t.ok(e instanceof FnStartupError);
+        t.equal((e as FnStartupError).exitCode, 2);
+    }
+    t.end();
+});
@@ -0,0 +1,100 @@
+import express from 'express';
+import test from 'tape';
+import {defineConfig, FnStartupError} from '../fdk/fdk';
+import {FnHarness, invoke} from '../fdk/harness';
+
+test('harness invokes a plain function with the Fn call headers', async (t) => {
+    const harness = new FnHarness(async (body: { name: string }, ctx) => ({
+        hello: body.name,
+        callID: ctx.callID,
+        hasDeadline: ctx.deadline !== null
+    }));
+    await harness.start();
+    try {
+        const res = await harness.invoke({body: {name: 'fn'}, callID: 'CALL1'});
+        t.equal(res.status, 200);
+        t.deepEqual(res.json(), {hello: 'fn', callID: 'CALL1', hasDeadline: true});
+        t.deepEqual(res.headers['content-type'], ['application/json']);
+    } finally {
+        await harness.close();
+    }
+    t.end();
+});
+
+test('harness decodes gateway status and headers', async (t) => {
+    const res = await invoke(async (body, ctx) => {
+        ctx.httpGateway.statusCode = 201;
+        ctx.httpGateway.setResponseHeader('X-Method', ctx.httpGateway.method);
+        ctx.httpGateway.setResponseHeader('X-Url', ctx.httpGateway.requestURL);
+        ctx.httpGateway.setResponseHeader('X-Client', ctx.httpGateway.getHeader('X-Client') || '');
+        return 'created';
+    }, {
+        body: 'x',
+        gateway: {method: 'put', url: '/things/1?a=b', headers: {'X-Client': 'tests'}}
+    });
+    t.equal(res.status, 201);
+    t.equal(res.rawStatus, 200);
+    t.deepEqual(res.headers['x-method'], ['PUT']);
+    t.deepEqual(res.headers['x-url'], ['/things/1?a=b']);
+    t.deepEqual(res.headers['x-client'], ['tests']);
+    t.equal(res.fnHeaders['fn-http-status'], '201');
+    t.equal(res.json(), 'created');
+    t.end();
+});
+
+test('harness runs Express apps', async (t) => {
+    const app = express();
+    app.get('/hello/:name', (req, res) => {
+        res.status(202).set('X-App', 'express').json({hello: req.params.name});
+    });
+    const res = await invoke(app, {gateway: {method: 'GET', url: '/hello/world'}});
+    t.equal(res.status, 202);
+    t.deepEqual(res.headers['x-app'], ['express']);
+    t.deepEqual(res.json(), {hello: 'world'});
+    t.end();
+});
+
+test('harness applies config and restores the environment', async (t) => {
+    const before = process.env.GREETING;
+    const res = await invoke((body, ctx) => ctx.config.GREETING, {}, {}, {config: {GREETING: 'hi'}});
+    t.equal(res.json(), 'hi');
+    t.equal(process.env.GREETING, before);
+    t.end();
+});
+
+test('harness rejects invocations before start', async (t) => {
+    const harness = new FnHarness(() => 'never');
+    await harness.invoke().then(() => t.fail('resolved'), (e: Error) => t.match(e.message, /not started/));
+    t.end();
+});
+
+test('harness start rejects when init fails instead of exiting', async (t) => {
+    const harness = new FnHarness(() => 'never', {
+        init: () => {
+            throw new Error('no database');
+        }
+    });
+    try {
+        await harness.start();
+        t.fail('start resolved');
+    } catch (e) {
+        t.ok(e instanceof FnStartupError);
+        t.equal((e as FnStartupError).exitCode, 4);
+        t.equal(((e as FnStartupError).cause as Error).message, 'no database');
+    }
+    await harness.invoke().then(() => t.fail('resolved'), (e: Error) => t.match(e.message, /not started/));
+    t.end();
+});
+
+test('harness start rejects when the config is invalid', async (t) => {
+    const config = defineConfig({DB_URL: {type: 'string', required: true}});
+    const harness = new FnHarness(() => 'never', {config});
+    try {
+        await harness.start();
+        t.fail('start resolved');
+    } catch (e) {
+        t.ok(e instanceof FnStartupError);
+        t.equal((e as FnStartupError).exitCode, 2);
+    }
+    t.end();
+});
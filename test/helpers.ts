@@ -0,0 +1,123 @@
+import fs from 'fs';
+import http from 'http';
+import os from 'os';
+import path from 'path';
+import {Context, FnHandler, FnOptions, handle} from '../fdk/fdk';
+import {FrameworkHandler} from '../fdk/frameworks';
+import {waitForListener} from '../fdk/harness';
+
+export interface RunningFunction {
+    dir: string;
+    listenFile: string;
+    tmpFile: string;
+    close: () => Promise<void>;
+    // Removes the temporary directory of the listener
+    remove: () => void;
+}
+
+/**
+ * Starts a function on a fresh unix listener, the way the harness does, but
+ * keeps the socket paths at hand.
+ */
+export async function startFunction(handler: FnHandler | FrameworkHandler, options: FnOptions = {}): Promise<RunningFunction> {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'fdk-test-'));
+    const listenFile = path.join(dir, 'fn.sock');
+    process.env.FN_FORMAT = 'http-stream';
+    process.env.FN_LISTENER = `unix:${listenFile}`;
+    const close = handle(handler as FnHandler, {handleSignals: false, ...options});
+    delete process.env.FN_FORMAT;
+    delete process.env.FN_LISTENER;
+    await waitForListener(listenFile, 5000);
+    return {
+        dir,
+        listenFile,
+        tmpFile: `${listenFile}.tmp`,
+        close,
+        remove: () => fs.rmSync(dir, {recursive: true, force: true})
+    };
+}
+
+/**
+ * Sends a gateway call and resolves with the response as soon as its head
+ * arrives, so tests can watch the body being streamed.
+ */
+export function openCall(listenFile: string, method: string, url: string, headers: http.OutgoingHttpHeaders = {}): Promise<http.IncomingMessage> {
+    return new Promise((resolve, reject) => {
+        const req = http.request({
+            socketPath: listenFile,
+            method: 'POST',
+            path: '/call',
+            headers: {
+                'Fn-Call-Id': 'STREAM',
+                'Fn-Deadline': new Date(Date.now() + 30000).toISOString(),
+                'Fn-Intent': 'httprequest',
+                'Fn-Http-Method': method,
+                'Fn-Http-Request-Url': url,
+                ...headers
+            }
+        }, resolve);
+        req.on('error', reject);
+        req.end();
+    });
+}
+
+export function delay(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+export interface RecordedRequest {
+    method: string;
+    url: string;
+    headers: http.IncomingHttpHeaders;
+    body: Buffer;
+}
+
+export interface RecordingServer {
+    url: string;
+    requests: RecordedRequest[];
+    close: () => Promise<void>;
+}
+
+/**
+ * Starts a local HTTP server that records every request and lets `respond`
+ * answer it, standing in for collectors and the Fn API.
+ */
+export function startServer(
+    respond: (req: RecordedRequest, res: http.ServerResponse) => void = (req, res) => res.end()
+): Promise<RecordingServer> {
+    const requests: RecordedRequest[] = [];
+    const server = http.createServer((req, res) => {
+        const chunks: Buffer[] = [];
+        req.on('data', (chunk: Buffer) => chunks.push(chunk));
+        req.on('end', () => {
+            const recorded = {method: req.method || '', url: req.url || '', headers: req.headers, body: Buffer.concat(chunks)};
+            requests.push(recorded);
+            respond(recorded, res);
+        });
+    });
+    return new Promise((resolve) => {
+        server.listen(0, '127.0.0.1', () => {
+            const {port} = server.address() as { port: number };
+            resolve({
+                url: `http://127.0.0.1:${port}`,
+                requests,
+                close: () => new Promise<void>((done) => {
+                    server.closeAllConnections();
+                    server.close(() => done());
+                })
+            });
+        });
+    });
+}
+
+/**
+ * Creates a context outside of an invocation, for code that takes one such as
+ * `ctx.http`. Header names are given in their canonical form.
+ */
+export function createContext(headers: { [key: string]: string } = {}, signal?: AbortSignal): Context {
+    const fnHeaders: { [key: string]: string[] } = {};
+    for (const name of Object.keys(headers)) {
+        fnHeaders[name] = [headers[name]];
+    }
+    return new Context({FN_APP_NAME: 'app', FN_FN_NAME: 'fn'}, undefined, fnHeaders, signal);
+}
@@ -0,0 +1,133 @@
+import {getEventListeners} from 'events';
+import test from 'tape';
+import {HttpClient, HttpClientError} from '../fdk/http-client';
+import {createContext, startServer} from './helpers';
+
+function statuses(...codes: number[]) {
+    let i = 0;
+    return startServer((req, res) => {
+        res.statusCode = codes[Math.min(i++, codes.length - 1)];
+        res.end(JSON.stringify({url: req.url}));
+    });
+}
+
+test('Bodies are encoded and calls carry the trace headers', async (t) => {
+    const server = await startServer((req, res) => res.end(req.body));
+    const traceId = 'a'.repeat(32);
+    try {
+        const ctx = createContext({'X-B3-Traceid': traceId, 'X-B3-Spanid': 'b'.repeat(16), 'X-B3-Sampled': '1'});
+        const res = await ctx.http.post(`${server.url}/items`, {name: 'x'}, {headers: {'X-Custom': 'yes'}});
+        t.ok(res.ok);
+        t.deepEqual(res.json(), {name: 'x'});
+
+        const sent = server.requests[0];
+        t.equal(sent.method, 'POST');
+        t.equal(sent.headers['content-type'], 'application/json');
+        t.equal(sent.headers['content-length'], '12');
+        t.equal(sent.headers['x-custom'], 'yes');
+        t.equal(sent.headers['x-b3-traceid'], traceId);
+        t.notEqual(sent.headers['x-b3-spanid'], 'b'.repeat(16), 'a client span is started');
+    } finally {
+        await server.close();
+    }
+    t.end();
+});
+
+test('Idempotent calls are retried on retryable statuses', async (t) => {
+    const server = await statuses(503, 502, 200);
+    try {
+        const ctx = createContext();
+        const res = await new HttpClient(ctx, {backoffMs: 1}).get(`${server.url}/retried`);
+        t.equal(res.status, 200);
+        t.equal(server.requests.length, 3);
+        t.equal(getEventListeners(ctx.signal, 'abort').length, 0, 'no abort listener is left behind');
+    } finally {
+        await server.close();
+    }
+    t.end();
+});
+
+test('Other calls and statuses are not retried', async (t) => {
+    const server = await statuses(503, 200);
+    try {
+        const client = new HttpClient(createContext(), {backoffMs: 1});
+        t.equal((await client.post(server.url, 'body')).status, 503, 'POST is not idempotent');
+        t.equal(server.requests.length, 1);
+
+        t.equal((await client.post(server.url, 'body', {retryNonIdempotent: true})).status, 200);
+        t.equal((await client.get(server.url, {retryOn: [500]})).status, 200);
+        t.equal(server.requests.length, 3);
+    } finally {
+        await server.close();
+    }
+    t.end();
+});
+
+test('Failed calls are thrown as HttpClientErrors', async (t) => {
+    const server = await startServer((req, res) => {
+        if (req.url === '/slow') {
+            setTimeout(() => res.end(), 500);
+        } else {
+            res.socket!.destroy();
+        }
+    });
+    try {
+        const client = new HttpClient(createContext(), {retries: 0});
+        const failed = await client.get(`${server.url}/reset`).catch((e) => e);
+        t.ok(failed instanceof HttpClientError);
+        t.equal(failed.status, 502);
+        t.equal(failed.code, 'UPSTREAM_UNAVAILABLE');
+        t.equal(failed.message, 'Upstream request failed', 'the message does not name the upstream');
+        t.equal(failed.url, `${server.url}/reset`);
+        t.ok(failed.cause instanceof Error);
+
+        const slow = await client.get(`${server.url}/slow`, {timeoutMs: 50}).catch((e) => e);
+        t.equal(slow.status, 504);
+        t.equal(slow.code, 'UPSTREAM_TIMEOUT');
+        t.notOk(slow.message.includes('127.0.0.1'));
+        t.ok(String(slow.cause).includes('127.0.0.1'), 'the cause does');
+    } finally {
+        await server.close();
+    }
+    t.end();
+});
+
+test('Calls are not sent past the deadline or once the invocation is aborted', async (t) => {
+    const server = await startServer();
+    try {
+        const late = createContext({'Fn-Deadline': new Date(Date.now() - 1000).toISOString()});
+        const expired = await late.http.get(server.url).catch((e) => e);
+        t.equal(expired.status, 504);
+        t.equal(expired.code, 'DEADLINE_EXCEEDED');
+
+        const controller = new AbortController();
+        controller.abort();
+        const aborted = await createContext({}, controller.signal).http.get(server.url).catch((e) => e);
+        t.ok(aborted instanceof HttpClientError);
+        t.equal(aborted.status, 504);
+        t.equal(server.requests.length, 0, 'nothing was sent');
+    } finally {
+        await server.close();
+    }
+    t.end();
+});
+
+test('Aborting the invocation cuts the backoff short', async (t) => {
+    const server = await startServer((req, res) => {
+        res.writeHead(503, {'Retry-After': '10'});
+        res.end();
+    });
+    try {
+        const controller = new AbortController();
+        const client = new HttpClient(createContext({}, controller.signal), {maxBackoffMs: 10000});
+        const startedAt = Date.now();
+        setTimeout(() => controller.abort(), 100);
+        const aborted = await client.get(server.url).catch((e) => e);
+        t.ok(Date.now() - startedAt < 5000, 'without waiting for the backoff');
+        t.equal(aborted.status, 504);
+        t.equal(server.requests.length, 1, 'the retry was not sent');
+    } finally {
+        await server.close();
+    }
+    t.end();
+});
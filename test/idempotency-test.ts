@@ -0,0 +1,159 @@
+import fs from 'fs';
+import http from 'http';
+import os from 'os';
+import path from 'path';
+import test from 'tape';
+import zlib from 'zlib';
+import {FnHarness, GatewayRequest} from '../fdk/harness';
+import {FileIdempotencyStore, StoredResponse} from '../fdk/idempotency';
+import {delay, openCall, startFunction} from './helpers';
+
+const large = {items: Array.from({length: 200}, (v, i) => ({id: i, name: `item ${i}`}))};
+
+function gateway(key: string, acceptEncoding?: string): GatewayRequest {
+    const headers: { [key: string]: string } = {'Idempotency-Key': key};
+    if (acceptEncoding) {
+        headers['Accept-Encoding'] = acceptEncoding;
+    }
+    return {method: 'POST', url: '/orders', headers};
+}
+
+function readBody(res: http.IncomingMessage): Promise<string> {
+    const chunks: Buffer[] = [];
+    res.on('data', (chunk: Buffer) => chunks.push(chunk));
+    return new Promise((resolve) => res.on('end', () => resolve(Buffer.concat(chunks).toString())));
+}
+
+test('Duplicate calls are replayed without running the function again', async (t) => {
+    let calls = 0;
+    const harness = new FnHarness(() => ({call: ++calls}), {idempotency: true});
+    await harness.start();
+    try {
+        const first = await harness.invoke({gateway: gateway('a')});
+        const second = await harness.invoke({gateway: gateway('a')});
+        t.deepEqual(second.json(), first.json());
+        t.deepEqual(second.headers['idempotent-replayed'], ['true']);
+        t.notOk(first.headers['idempotent-replayed']);
+
+        const other = await harness.invoke({gateway: gateway('b')});
+        t.deepEqual(other.json(), {call: 2}, 'other keys run the function');
+    } finally {
+        await harness.close();
+    }
+    t.end();
+});
+
+test('Calls without the header are only keyed by their call ID when asked to', async (t) => {
+    let calls = 0;
+    const request = {callID: 'CALL', gateway: {method: 'POST', url: '/orders'}};
+    const byHeader = new FnHarness(() => ({call: ++calls}), {idempotency: true});
+    await byHeader.start();
+    try {
+        await byHeader.invoke(request);
+        t.deepEqual((await byHeader.invoke(request)).json(), {call: 2}, 'not stored without the header');
+    } finally {
+        await byHeader.close();
+    }
+
+    const byCallID = new FnHarness(() => ({call: ++calls}), {idempotency: {useCallID: true}});
+    await byCallID.start();
+    try {
+        await byCallID.invoke(request);
+        const replayed = await byCallID.invoke(request);
+        t.deepEqual(replayed.json(), {call: 3});
+        t.deepEqual(replayed.headers['idempotent-replayed'], ['true']);
+    } finally {
+        await byCallID.close();
+    }
+    t.end();
+});
+
+test('The file store removes expired responses', async (t) => {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'fdk-idempotency-'));
+    const response = (expiresAt: number): StoredResponse => ({status: 200, headers: {}, body: Buffer.from('{}'), expiresAt});
+    try {
+        const store = new FileIdempotencyStore({directory, sweepIntervalMs: 0});
+        await store.set('expired', response(Date.now() - 1000));
+        await store.set('live', response(Date.now() + 60000));
+        await store.sweep();
+        t.equal(fs.readdirSync(directory).length, 1, 'only the live response is left');
+        t.ok(await store.get('live'));
+        t.notOk(await store.get('expired'));
+    } finally {
+        fs.rmSync(directory, {recursive: true, force: true});
+    }
+    t.end();
+});
+
+test('Replays are compressed for the encodings their caller accepts', async (t) => {
+    let calls = 0;
+    const harness = new FnHarness(() => {
+        calls++;
+        return large;
+    }, {idempotency: true, compression: true});
+    await harness.start();
+    try {
+        const gzip = await harness.invoke({gateway: gateway('c', 'gzip')});
+        t.deepEqual(gzip.headers['content-encoding'], ['gzip']);
+        t.deepEqual(JSON.parse(zlib.gunzipSync(gzip.body).toString()), large);
+
+        const identity = await harness.invoke({gateway: gateway('c')});
+        t.deepEqual(identity.headers['idempotent-replayed'], ['true']);
+        t.notOk(identity.headers['content-encoding'], 'not compressed without Accept-Encoding');
+        t.deepEqual(identity.json(), large);
+
+        const br = await harness.invoke({gateway: gateway('c', 'br')});
+        t.deepEqual(br.headers['content-encoding'], ['br']);
+        t.deepEqual(JSON.parse(zlib.brotliDecompressSync(br.body).toString()), large);
+        t.equal(calls, 1);
+    } finally {
+        await harness.close();
+    }
+    t.end();
+});
+
+test('A key stays in progress until the function settles, even if its caller disconnects', async (t) => {
+    let calls = 0;
+    let finish: () => void = () => undefined;
+    const fn = await startFunction(async () => {
+        calls++;
+        if (calls === 1) {
+            await new Promise<void>((resolve) => {
+                finish = resolve;
+            });
+        }
+        return {call: calls};
+    }, {idempotency: true});
+    try {
+        const abandoned = http.request({
+            socketPath: fn.listenFile,
+            method: 'POST',
+            path: '/call',
+            headers: {
+                'Fn-Call-Id': 'ABANDONED',
+                'Fn-Deadline': new Date(Date.now() + 30000).toISOString(),
+                'Fn-Intent': 'httprequest',
+                'Fn-Http-Method': 'POST',
+                'Fn-Http-Request-Url': '/orders',
+                'Fn-Http-H-Idempotency-Key': 'd'
+            }
+        });
+        abandoned.on('error', () => undefined);
+        abandoned.end();
+        await delay(100);
+        abandoned.destroy();
+        await delay(100);
+
+        const duplicate = openCall(fn.listenFile, 'POST', '/orders', {'Fn-Http-H-Idempotency-Key': 'd'});
+        await delay(200);
+        t.equal(calls, 1, 'the duplicate waits for the first call');
+
+        finish();
+        const res = await duplicate;
+        t.deepEqual(JSON.parse(await readBody(res)), {call: 2}, 'the unanswered call was not stored');
+    } finally {
+        await fn.close();
+        fn.remove();
+    }
+    t.end();
+});
@@ -0,0 +1,69 @@
+import express from 'express';
+import {Readable} from 'stream';
+import test from 'tape';
+import {invoke} from '../fdk/harness';
+
+async function readAll(stream: Readable): Promise<Buffer> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of stream) {
+        chunks.push(Buffer.from(chunk));
+    }
+    return Buffer.concat(chunks);
+}
+
+test('stream input mode passes the live request body', async (t) => {
+    const body = Buffer.alloc(256 * 1024, 'a');
+    const res = await invoke(async (input: Readable) => {
+        const data = await readAll(input);
+        return {readable: input instanceof Readable, size: data.length};
+    }, {body}, {inputMode: 'stream'});
+    t.equal(res.status, 200);
+    t.deepEqual(res.json(), {readable: true, size: body.length});
+    t.end();
+});
+
+test('buffered input modes decode the body', async (t) => {
+    const asBuffer = await invoke((input: Buffer) => ({isBuffer: Buffer.isBuffer(input), text: input.toString()}),
+        {body: 'raw'}, {inputMode: 'buffer'});
+    t.deepEqual(asBuffer.json(), {isBuffer: true, text: 'raw'});
+    const asString = await invoke((input: string) => typeof input, {body: '{"a":1}'}, {inputMode: 'string'});
+    t.equal(asString.json(), 'string');
+    const asJSON = await invoke((input: { a: number }) => input.a, {body: {a: 1}});
+    t.equal(asJSON.json(), 1);
+    t.end();
+});
+
+test('buffered bodies over maxBodySize are rejected with 413', async (t) => {
+    let called = false;
+    const res = await invoke(() => {
+        called = true;
+    }, {body: Buffer.alloc(2048)}, {inputMode: 'buffer', maxBodySize: 1024});
+    t.equal(res.status, 413);
+    t.equal((res.json() as { message: string }).message, 'Payload too large');
+    t.notOk(called, 'function not called');
+
+    const small = await invoke((input: Buffer) => input.length, {body: Buffer.alloc(512)},
+        {inputMode: 'buffer', maxBodySize: 1024});
+    t.equal(small.json(), 512);
+    t.end();
+});
+
+test('Express requests are backed by the request stream', async (t) => {
+    const app = express();
+    app.post('/upload', (req, res) => {
+        let size = 0;
+        req.on('data', (chunk: Buffer) => {
+            size += chunk.length;
+        });
+        req.on('end', () => res.json({size, length: req.get('content-length')}));
+    });
+    app.post('/text', express.text(), (req, res) => {
+        res.send(`got ${req.body}`);
+    });
+    const body = Buffer.alloc(100 * 1024, 'b');
+    const upload = await invoke(app, {body, gateway: {method: 'POST', url: '/upload'}});
+    t.deepEqual(upload.json(), {size: body.length, length: String(body.length)});
+    const text = await invoke(app, {body: 'hello', gateway: {method: 'POST', url: '/text'}});
+    t.equal(text.text(), 'got hello');
+    t.end();
+});
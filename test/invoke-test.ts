@@ -0,0 +1,144 @@
+import http from 'http';
+import test from 'tape';
+import {invoke} from '../fdk/harness';
+import {
+    FnClient,
+    FnInvokeError,
+    FunctionFailedError,
+    FunctionNotFoundError,
+    FunctionThrottledError,
+    SignableRequest
+} from '../fdk/invoke';
+import {createContext, RecordedRequest, startServer} from './helpers';
+
+// Answers like an Fn server hosting `billing/quote` as function `fn1`
+function fnServer(invoke: (req: RecordedRequest, res: http.ServerResponse) => void = (req, res) => res.end(req.body)) {
+    return startServer((req, res) => {
+        const url = new URL(req.url, 'http://fn');
+        if (url.pathname === '/v2/apps') {
+            res.end(JSON.stringify({items: url.searchParams.get('name') === 'billing' ? [{id: 'app1', name: 'billing'}] : []}));
+        } else if (url.pathname === '/v2/fns') {
+            res.end(JSON.stringify({items: url.searchParams.get('name') === 'quote' ? [{id: 'fn1', name: 'quote'}] : []}));
+        } else {
+            invoke(req, res);
+        }
+    });
+}
+
+test('Functions are invoked by ID, or by names looked up once', async (t) => {
+    const server = await fnServer((req, res) => {
+        res.setHeader('Fn-Call-Id', 'CALL1');
+        res.end(req.body);
+    });
+    try {
+        const client = new FnClient({endpoint: server.url});
+        const ctx = createContext();
+        const res = await client.invoke(ctx, 'billing/quote', {items: 2});
+        t.deepEqual(res.json(), {items: 2});
+        t.equal(res.callID, 'CALL1');
+        await client.invoke(ctx, {appName: 'billing', fnName: 'quote'});
+        await client.invoke(ctx, 'fn2', 'text', {detached: true});
+
+        t.deepEqual(server.requests.map((r) => `${r.method} ${r.url}`), [
+            'GET /v2/apps?name=billing',
+            'GET /v2/fns?app_id=app1&name=quote',
+            'POST /invoke/fn1',
+            'POST /invoke/fn1',
+            'POST /invoke/fn2'
+        ]);
+        t.equal(server.requests[2].headers['content-type'], 'application/json');
+        t.equal(server.requests[4].headers['fn-invoke-type'], 'detached');
+        t.equal(server.requests[4].headers['content-type'], 'text/plain; charset=utf-8');
+    } finally {
+        await server.close();
+    }
+    t.end();
+});
+
+test('Requests are signed with the headers they are sent with', async (t) => {
+    const server = await fnServer();
+    const signed: SignableRequest[] = [];
+    try {
+        const client = new FnClient({
+            endpoint: server.url,
+            sign: (request) => {
+                signed.push(request);
+                request.headers['Authorization'] = `Signature headers="${Object.keys(request.headers).map((h) => h.toLowerCase()).sort().join(' ')}"`;
+            }
+        });
+        const ctx = createContext({'X-B3-Traceid': 'a'.repeat(32), 'X-B3-Spanid': 'b'.repeat(16), 'X-B3-Sampled': '1'});
+        await client.invoke(ctx, 'billing/quote', {items: 2});
+
+        t.equal(signed.length, 3, 'lookups are signed too');
+        const sent = server.requests[2];
+        const covered = String(sent.headers['authorization']);
+        for (const name of ['content-length', 'content-type', 'x-b3-traceid', 'x-b3-spanid']) {
+            t.ok(covered.includes(name), `the signature covers ${name}`);
+            t.ok(sent.headers[name], `${name} is sent`);
+        }
+        t.equal(signed[2].url, `${server.url}/invoke/fn1`);
+        t.equal(signed[2].body && signed[2].body.toString(), '{"items":2}');
+    } finally {
+        await server.close();
+    }
+    t.end();
+});
+
+test('Error responses are thrown as FnInvokeErrors', async (t) => {
+    const server = await fnServer((req, res) => {
+        const [status, extra] = ({
+            '/invoke/busy': [429, {'Retry-After': '3'}],
+            '/invoke/broken': [502, {}],
+            '/invoke/denied': [403, {}]
+        } as { [url: string]: [number, { [key: string]: string }] })[req.url];
+        res.writeHead(status, {'Fn-Call-Id': 'CALL2', ...extra});
+        res.end(JSON.stringify({message: `${req.url} failed`, code: 'Denied'}));
+    });
+    try {
+        const client = new FnClient({endpoint: server.url});
+        const ctx = createContext();
+        const missing = await client.invoke(ctx, 'billing/missing').catch((e) => e);
+        t.ok(missing instanceof FunctionNotFoundError);
+        t.equal(missing.functionId, 'billing/missing');
+        t.equal(missing.calleeStatus, 404);
+        t.equal(missing.status, 502, 'a missing dependency is not the caller\'s 404');
+
+        const busy = await client.invoke(ctx, 'busy').catch((e) => e);
+        t.ok(busy instanceof FunctionThrottledError);
+        t.equal(busy.status, 502);
+        t.equal(busy.retryAfter, '3');
+        t.deepEqual(busy.headers, {}, 'Retry-After is not passed on');
+        t.equal(busy.callID, 'CALL2');
+
+        const broken = await client.invoke(ctx, 'broken').catch((e) => e);
+        t.ok(broken instanceof FunctionFailedError);
+        t.equal(broken.message, 'Function invocation failed');
+        t.equal(String(broken.cause), 'Error: Denied: /invoke/broken failed', 'the callee response is kept as the cause');
+
+        const denied = await client.invoke(ctx, 'denied').catch((e) => e);
+        t.ok(denied instanceof FnInvokeError);
+        t.equal(denied.status, 502);
+        t.equal(denied.calleeStatus, 403);
+        t.equal(denied.code, 'FUNCTION_INVOKE_FAILED');
+        t.equal(server.requests.filter((r) => r.url === '/invoke/busy').length, 1, 'invocations are not retried');
+    } finally {
+        await server.close();
+    }
+    t.end();
+});
+
+test('Uncaught invoke errors answer the caller with a 502 and no callee detail', async (t) => {
+    const server = await fnServer((req, res) => {
+        res.writeHead(404, {'Content-Type': 'text/html'});
+        res.end('<h1>nginx: no upstream 10.0.0.5</h1>');
+    });
+    try {
+        const client = new FnClient({endpoint: server.url});
+        const res = await invoke((input, ctx) => client.invoke(ctx, 'fn1'), {gateway: {method: 'GET', url: '/'}});
+        t.equal(res.status, 502);
+        t.deepEqual(res.json(), {message: 'Function not found', code: 'FUNCTION_NOT_FOUND'});
+    } finally {
+        await server.close();
+    }
+    t.end();
+});
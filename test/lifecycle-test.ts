@@ -0,0 +1,57 @@
+import test from 'tape';
+import {FnHarness} from '../fdk/harness';
+
+function lifecycle(disposed: number[]) {
+    let instances = 0;
+    return {
+        init: () => ({instance: ++instances}),
+        dispose: (state: { instance: number }) => {
+            disposed.push(state.instance);
+        }
+    };
+}
+
+test('Each instance disposes of its own state, once', async (t) => {
+    const disposed: number[] = [];
+    const options = lifecycle(disposed);
+    for (let i = 0; i < 3; i++) {
+        const harness = new FnHarness((input: unknown, ctx) => ctx.state, options);
+        await harness.start();
+        await harness.invoke();
+        await harness.close();
+    }
+    t.deepEqual(disposed, [1, 2, 3]);
+    t.end();
+});
+
+test('Closing one instance leaves the state of another alone', async (t) => {
+    const disposed: number[] = [];
+    const options = lifecycle(disposed);
+    const first = new FnHarness((input: unknown, ctx) => ctx.state, options);
+    const second = new FnHarness((input: unknown, ctx) => ctx.state, options);
+    await first.start();
+    await second.start();
+    try {
+        await second.close();
+        t.deepEqual(disposed, [2]);
+        t.deepEqual((await first.invoke()).json(), {instance: 1}, 'the first instance still serves calls');
+    } finally {
+        await first.close();
+    }
+    t.deepEqual(disposed, [2, 1]);
+    t.end();
+});
+
+test('The first call of every instance is a cold start', async (t) => {
+    for (let i = 0; i < 2; i++) {
+        const harness = new FnHarness((input, ctx) => ctx.coldStart);
+        await harness.start();
+        try {
+            t.equal((await harness.invoke()).json(), true, `instance ${i + 1} starts cold`);
+            t.equal((await harness.invoke()).json(), false, `instance ${i + 1} is warm afterwards`);
+        } finally {
+            await harness.close();
+        }
+    }
+    t.end();
+});
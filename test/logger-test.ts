@@ -0,0 +1,132 @@
+import sinon from 'sinon';
+import test from 'tape';
+import {invoke} from '../fdk/harness';
+import {log, LogFields, Logger} from '../fdk/logger';
+import {createContext} from './helpers';
+
+interface CapturedLines {
+    stdout: LogFields[];
+    stderr: LogFields[];
+}
+
+// Captures the log lines `fn` writes, stdout is restored before tape reports anything
+function captureLogs(fn: () => void): CapturedLines {
+    const stdout = sinon.stub(process.stdout, 'write').returns(true);
+    const stderr = sinon.stub(process.stderr, 'write').returns(true);
+    try {
+        fn();
+    } finally {
+        stdout.restore();
+        stderr.restore();
+    }
+    const lines = (stub: sinon.SinonStub) => stub.getCalls().map((call) => JSON.parse(String(call.args[0])) as LogFields);
+    return {stdout: lines(stdout), stderr: lines(stderr)};
+}
+
+function withLogLevel(level: string | undefined, fn: () => void): void {
+    const saved = process.env.FN_LOG_LEVEL;
+    setLogLevel(level);
+    try {
+        fn();
+    } finally {
+        setLogLevel(saved);
+    }
+}
+
+function setLogLevel(level: string | undefined): void {
+    if (level === undefined) {
+        delete process.env.FN_LOG_LEVEL;
+    } else {
+        process.env.FN_LOG_LEVEL = level;
+    }
+}
+
+test('Log lines are JSON with the level, message and fields', (t) => {
+    withLogLevel('debug', () => {
+        const lines = captureLogs(() => {
+            log.info('hello', {user: 'u1'});
+            log.error('broken', {error: new TypeError('bad input')});
+        });
+        t.equal(lines.stdout.length, 1);
+        t.equal(lines.stdout[0].level, 'info');
+        t.equal(lines.stdout[0].message, 'hello');
+        t.equal(lines.stdout[0].user, 'u1');
+        t.ok(!isNaN(Date.parse(String(lines.stdout[0].timestamp))), 'has a timestamp');
+        t.equal(lines.stderr.length, 1, 'errors go to stderr');
+        const error = lines.stderr[0].error as LogFields;
+        t.equal(error.name, 'TypeError');
+        t.equal(error.message, 'bad input');
+        t.ok(error.stack, 'errors keep their stack');
+    });
+    t.end();
+});
+
+test('Lines below FN_LOG_LEVEL are dropped', (t) => {
+    withLogLevel('warn', () => {
+        const lines = captureLogs(() => {
+            log.debug('d');
+            log.info('i');
+            log.warn('w');
+        });
+        t.equal(lines.stdout.length, 0);
+        t.deepEqual(lines.stderr.map((line) => line.message), ['w']);
+        t.notOk(log.isLevelEnabled('info'));
+    });
+    withLogLevel(undefined, () => {
+        t.ok(log.isLevelEnabled('info'), 'info by default');
+        t.notOk(log.isLevelEnabled('debug'));
+    });
+    withLogLevel('verbose', () => {
+        t.ok(log.isLevelEnabled('info'), 'unknown levels fall back to info');
+    });
+    t.end();
+});
+
+test('Invocations without FN_LOG_LEVEL in their config use the environment level', (t) => {
+    const ctx = createContext();
+    withLogLevel('error', () => {
+        const lines = captureLogs(() => ctx.log.info('quiet'));
+        t.equal(lines.stdout.length, 0);
+        t.notOk(ctx.log.isLevelEnabled('warn'));
+    });
+    ctx.config.FN_LOG_LEVEL = 'debug';
+    withLogLevel('error', () => {
+        t.ok(ctx.log.isLevelEnabled('debug'), 'the config takes precedence');
+    });
+    t.end();
+});
+
+test('Child loggers add their fields to every line', (t) => {
+    withLogLevel('info', () => {
+        const child = new Logger(() => undefined, {component: 'db'}).child({pool: 'main'});
+        const lines = captureLogs(() => child.info('connected', {pool: 'replica'}));
+        t.equal(lines.stdout[0].component, 'db');
+        t.equal(lines.stdout[0].pool, 'replica', 'line fields take precedence');
+    });
+    t.end();
+});
+
+test('Lines written during an invocation carry its IDs', async (t) => {
+    let lines: CapturedLines = {stdout: [], stderr: []};
+    const traceId = '1'.repeat(32);
+    await invoke(async (input, ctx) => {
+        // Async work started from the function is correlated with the invocation too
+        await new Promise((resolve) => setTimeout(resolve, 1));
+        lines = captureLogs(() => {
+            ctx.log.info('from ctx');
+            log.info('from the module logger');
+        });
+        return 'ok';
+    }, {callID: 'CALL-1', headers: {'X-B3-TraceId': traceId, 'X-B3-Sampled': '1'}}, {}, {
+        config: {FN_LOG_LEVEL: 'info', FN_APP_NAME: 'app', FN_FN_NAME: 'fn'}
+    });
+    t.equal(lines.stdout.length, 2);
+    for (const line of lines.stdout) {
+        t.equal(line.callID, 'CALL-1');
+        t.equal(line.traceId, traceId);
+        t.equal(line.appName, 'app');
+        t.equal(line.fnName, 'fn');
+        t.ok(line.spanId, 'has the span ID');
+    }
+    t.end();
+});
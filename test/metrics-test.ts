@@ -0,0 +1,148 @@
+import test from 'tape';
+import {invoke} from '../fdk/harness';
+import {metrics, MetricSnapshot, MetricsRegistry, OCIMonitoringExporter, PostMetricDataDetails} from '../fdk/metrics';
+import {delay, startServer} from './helpers';
+
+test('Metrics render in the Prometheus text format', (t) => {
+    const registry = new MetricsRegistry();
+    registry.counter('jobs_total', {help: 'Jobs run'}).inc({queue: 'a"b'}, 2);
+    registry.gauge('workers').set(3);
+    const histogram = registry.histogram('job_seconds', {buckets: [1, 0.1]});
+    histogram.observe(0.05);
+    histogram.observe(0.5);
+    t.equal(registry.toPrometheus(), [
+        '# HELP jobs_total Jobs run',
+        '# TYPE jobs_total counter',
+        'jobs_total{queue="a\\"b"} 2',
+        '# TYPE workers gauge',
+        'workers 3',
+        '# TYPE job_seconds histogram',
+        'job_seconds_bucket{le="0.1"} 1',
+        'job_seconds_bucket{le="1"} 2',
+        'job_seconds_bucket{le="+Inf"} 2',
+        'job_seconds_sum 0.55',
+        'job_seconds_count 2',
+        ''
+    ].join('\n'));
+    t.end();
+});
+
+test('Metrics are declared where they are used', (t) => {
+    const registry = new MetricsRegistry();
+    t.equal(registry.counter('hits_total'), registry.counter('hits_total'), 'the same counter');
+    t.throws(() => registry.gauge('hits_total'), /hits_total is a counter, not a gauge/);
+    t.throws(() => registry.counter('bad-name'), /Invalid metric name/);
+    t.throws(() => registry.counter('hits_total').inc({}, -1), /cannot be decreased/);
+    const gauge = registry.gauge('queue_depth');
+    gauge.inc({queue: 'q'}, 5);
+    gauge.dec({queue: 'q'});
+    t.deepEqual(gauge.snapshot().series, [{labels: {queue: 'q'}, value: 4}]);
+    t.end();
+});
+
+test('setExporters replaces the exporters and their interval', async (t) => {
+    const registry = new MetricsRegistry();
+    const exported: string[] = [];
+    const exporter = (name: string) => ({export: () => {
+        exported.push(name);
+    }});
+
+    registry.setExporters([exporter('first')], 10);
+    await delay(50);
+    t.ok(exported.includes('first'), 'exported on the interval');
+
+    registry.setExporters([exporter('second')], 60000);
+    exported.length = 0;
+    await delay(50);
+    t.deepEqual(exported, [], 'the old interval was stopped');
+    await registry.flush();
+    t.deepEqual(exported, ['second'], 'only the new exporter is called');
+
+    registry.setExporters([]);
+    await registry.flush();
+    t.deepEqual(exported, ['second']);
+    t.end();
+});
+
+test('OCI Monitoring receives the change since the last export', async (t) => {
+    const telemetry = await startServer((req, res) => res.end());
+    try {
+        const registry = new MetricsRegistry();
+        const exporter = new OCIMonitoringExporter({
+            endpoint: telemetry.url,
+            compartmentId: 'ocid1.compartment.oc1..aaa',
+            namespace: 'orders',
+            dimensions: {fn: 'checkout', empty: ''},
+            sign: (request) => {
+                request.headers.authorization = 'Signature test';
+            }
+        });
+        const orders = registry.counter('orders_total');
+        const latency = registry.histogram('latency_seconds', {unit: 'seconds'});
+        registry.gauge('carts').set(2);
+        orders.inc({}, 3);
+        latency.observe(1);
+        latency.observe(3);
+        await exporter.export(registry.snapshot());
+        orders.inc();
+        await exporter.export(registry.snapshot());
+
+        t.equal(telemetry.requests.length, 2);
+        t.equal(telemetry.requests[0].url, '/20180401/metrics');
+        t.equal(telemetry.requests[0].headers.authorization, 'Signature test');
+        const first = JSON.parse(telemetry.requests[0].body.toString()) as PostMetricDataDetails;
+        const byName = (name: string) => first.metricData.find((m) => m.name === name)!;
+        t.equal(byName('orders_total').datapoints[0].value, 3);
+        t.deepEqual(byName('orders_total').dimensions, {fn: 'checkout'}, 'empty dimensions are dropped');
+        t.deepEqual([byName('latency_seconds').datapoints[0].value, byName('latency_seconds').datapoints[0].count], [2, 2]);
+        t.deepEqual(byName('latency_seconds').metadata, {unit: 'seconds'});
+        t.equal(byName('carts').datapoints[0].value, 2);
+
+        const second = JSON.parse(telemetry.requests[1].body.toString()) as PostMetricDataDetails;
+        t.deepEqual(second.metricData.map((m) => [m.name, m.datapoints[0].value]), [['orders_total', 1], ['carts', 2]],
+            'unchanged counters and histograms are skipped');
+    } finally {
+        await telemetry.close();
+    }
+    t.end();
+});
+
+test('OCI Monitoring requests time out', async (t) => {
+    const telemetry = await startServer(() => undefined);
+    try {
+        const registry = new MetricsRegistry();
+        registry.gauge('carts').set(1);
+        const exporter = new OCIMonitoringExporter({
+            endpoint: telemetry.url,
+            compartmentId: 'ocid1.compartment.oc1..aaa',
+            namespace: 'orders',
+            timeoutMs: 50
+        });
+        const error = await exporter.export(registry.snapshot()).catch((e) => e);
+        t.ok(error instanceof Error);
+        t.equal(error.message, 'PostMetricData did not respond within 50ms');
+    } finally {
+        await telemetry.close();
+    }
+    t.end();
+});
+
+test('Invocations are recorded in the built-in metrics', async (t) => {
+    const count = (snapshot: MetricSnapshot[]) => {
+        const metric = snapshot.find((m) => m.name === 'fn_invocations_total');
+        return metric ? metric.series.reduce((total, s) => total + s.value, 0) : 0;
+    };
+    const before = count(metrics.snapshot());
+    const exported: MetricSnapshot[][] = [];
+    await invoke((input, ctx) => {
+        ctx.metrics.counter('test_calls_total').inc();
+        return 'ok';
+    }, {}, {metrics: {exporters: [{export: (snapshot) => {
+        exported.push(snapshot);
+    }}]}});
+    t.equal(count(metrics.snapshot()), before + 1);
+    t.ok(exported.length > 0, 'flushed on shutdown');
+    t.ok(exported[exported.length - 1].some((m) => m.name === 'test_calls_total'));
+    metrics.setExporters([]);
+    t.end();
+});
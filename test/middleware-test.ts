@@ -0,0 +1,83 @@
+import test from 'tape';
+import type {Context} from '../fdk/fdk';
+import {UnauthorizedError} from '../fdk/errors';
+import {invoke} from '../fdk/harness';
+import {compose, FnMiddleware, runMiddleware} from '../fdk/middleware';
+
+const ctx = {} as Context;
+
+test('Middleware runs in order around the terminal handler', async (t) => {
+    const calls: string[] = [];
+    const trace = (name: string): FnMiddleware => async (c, next) => {
+        calls.push(`${name} before`);
+        await next();
+        calls.push(`${name} after`);
+    };
+    const result = await runMiddleware([trace('a'), trace('b')], ctx, () => {
+        calls.push('handler');
+        return 'result';
+    });
+    t.equal(result, 'result', 'returning nothing keeps the downstream result');
+    t.deepEqual(calls, ['a before', 'b before', 'handler', 'b after', 'a after']);
+    t.end();
+});
+
+test('Middleware may short-circuit, replace the result or catch errors', async (t) => {
+    let reached = false;
+    const cached = await runMiddleware([() => 'cached'], ctx, () => {
+        reached = true;
+    });
+    t.equal(cached, 'cached');
+    t.notOk(reached, 'the handler did not run');
+
+    const wrapped = await runMiddleware([async (c, next) => ({data: await next()})], ctx, () => 1);
+    t.deepEqual(wrapped, {data: 1});
+
+    const recovered = await runMiddleware([async (c, next) => {
+        try {
+            return await next();
+        } catch (e) {
+            return `recovered from ${(e as Error).message}`;
+        }
+    }], ctx, () => {
+        throw new Error('boom');
+    });
+    t.equal(recovered, 'recovered from boom');
+    t.end();
+});
+
+test('Calling next() twice is an error', async (t) => {
+    try {
+        await runMiddleware([async (c, next) => {
+            await next();
+            await next();
+        }], ctx, () => undefined);
+        t.fail('should reject');
+    } catch (e) {
+        t.equal((e as Error).message, 'next() called multiple times');
+    }
+    t.end();
+});
+
+test('Middleware runs around functions from the middleware option and compose()', async (t) => {
+    const authenticate: FnMiddleware = (c, next) => {
+        if (c.getHeader('Authorization') !== 'Bearer ok') {
+            throw new UnauthorizedError();
+        }
+        return next();
+    };
+    const upperCase: FnMiddleware = (c, next) => {
+        c.body = String(c.body).toUpperCase();
+        return next();
+    };
+
+    const fromOption = await invoke((body: string) => `hello ${body}`, {body: 'ann', contentType: 'text/plain', headers: {Authorization: 'Bearer ok'}}, {
+        middleware: [authenticate, upperCase]
+    });
+    t.equal(fromOption.json(), 'hello ANN', 'the handler gets the body as middleware left it');
+
+    const composed = compose(authenticate, (body: string) => `hello ${body}`);
+    const denied = await invoke(composed, {body: 'ann', contentType: 'text/plain', gateway: {method: 'POST', url: '/'}});
+    t.equal(denied.status, 401);
+    t.end();
+});
@@ -0,0 +1,93 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import test from 'tape';
+import type {Context} from '../fdk/fdk';
+import {invoke} from '../fdk/harness';
+import {FnResponse, preferredContentType} from '../fdk/response';
+
+const gateway = {method: 'GET', url: '/'};
+
+test('FnResponses set the gateway status, headers and cookies', async (t) => {
+    const res = await invoke(() => FnResponse.json({id: 1}, 201)
+        .setHeader('Location', '/items/1')
+        .addHeader('X-Tag', 'a')
+        .addHeader('x-tag', 'b')
+        .cookie('session', 'a b', {httpOnly: true, sameSite: 'Lax', maxAge: 60})
+        .cookie('theme', 'dark'), {gateway});
+    t.equal(res.status, 201);
+    t.deepEqual(res.headers['location'], ['/items/1']);
+    t.deepEqual(res.headers['x-tag'], ['a', 'b']);
+    t.deepEqual(res.headers['set-cookie'], ['session=a%20b; Max-Age=60; Path=/; HttpOnly; SameSite=Lax', 'theme=dark; Path=/']);
+    t.deepEqual(res.headers['content-type'], ['application/json']);
+    t.deepEqual(res.json(), {id: 1});
+    t.end();
+});
+
+test('FnResponse helpers cover text, redirects and empty responses', async (t) => {
+    const text = await invoke(() => FnResponse.text('plain', 202), {gateway});
+    t.equal(text.status, 202);
+    t.equal(text.text(), 'plain');
+    t.deepEqual(text.headers['content-type'], ['text/plain; charset=utf-8']);
+
+    const redirect = await invoke(() => FnResponse.redirect('https://example.com/', 307), {gateway});
+    t.equal(redirect.status, 307);
+    t.deepEqual(redirect.headers['location'], ['https://example.com/']);
+
+    const empty = await invoke(() => FnResponse.noContent(), {gateway});
+    t.equal(empty.status, 204);
+    t.equal(empty.body.length, 0);
+
+    const cleared = new FnResponse().clearCookie('session');
+    t.throws(() => cleared.cookie('bad name', 'x'), /Invalid cookie name/);
+    t.end();
+});
+
+test('FnResponse.file streams a file with its content type', async (t) => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'fdk-response-'));
+    try {
+        const file = path.join(dir, 'report.csv');
+        fs.writeFileSync(file, 'a,b\n1,2\n');
+        const res = await invoke(() => FnResponse.file(file, {downloadName: 'Übersicht.csv'}), {gateway});
+        t.equal(res.text(), 'a,b\n1,2\n');
+        t.deepEqual(res.headers['content-type'], ['text/csv; charset=utf-8']);
+        t.deepEqual(res.headers['content-disposition'],
+            ['attachment; filename="_bersicht.csv"; filename*=UTF-8\'\'%C3%9Cbersicht.csv']);
+        t.ok(res.headers['last-modified'], 'has Last-Modified');
+
+        const missing = await invoke(() => FnResponse.file(path.join(dir, 'missing.csv')), {gateway});
+        t.equal(missing.status, 404);
+    } finally {
+        fs.rmSync(dir, {recursive: true, force: true});
+    }
+    t.end();
+});
+
+test('FnResponse.negotiate picks the representation the caller prefers', async (t) => {
+    let computed = 0;
+    const handler = (input: unknown, ctx: Context) => FnResponse.negotiate(ctx, {
+        'application/json': {name: 'ann'},
+        'text/csv': () => {
+            computed++;
+            return 'name\nann\n';
+        }
+    });
+    const csv = await invoke(handler, {gateway: {...gateway, headers: {Accept: 'text/csv, application/json;q=0.5'}}});
+    t.equal(csv.text(), 'name\nann\n');
+    t.deepEqual(csv.headers['vary'], ['Accept']);
+    const json = await invoke(handler, {gateway});
+    t.deepEqual(json.json(), {name: 'ann'}, 'the first representation without an Accept header');
+    t.equal(computed, 1, 'representations are computed lazily');
+    const none = await invoke(handler, {gateway: {...gateway, headers: {Accept: 'image/png'}}});
+    t.equal(none.status, 406);
+    t.end();
+});
+
+test('Accept ranges are ranked by specificity and quality', (t) => {
+    const available = ['application/json', 'text/html'];
+    t.equal(preferredContentType('text/*;q=0.9, */*;q=0.1', available), 'text/html');
+    t.equal(preferredContentType('text/html;q=0, */*', available), 'application/json');
+    t.equal(preferredContentType('', available), 'application/json');
+    t.equal(preferredContentType('image/*', available), null);
+    t.end();
+});
@@ -0,0 +1,64 @@
+import test from 'tape';
+import {FnHarness} from '../fdk/harness';
+import {createRouter} from '../fdk/router';
+
+const router = createRouter({basePath: '/api'})
+    .get('/users/:id', (body, ctx, {params, query}) => ({id: params.id, expand: query.expand || null}))
+    .post('/users', (user) => ({created: user}), {input: {type: 'object', required: ['name']}})
+    .delete('/users/:id', () => undefined)
+    .get('/files/*', (body, ctx, {params}) => ({file: params['*']}))
+    .all('/echo', (body, ctx, {method}) => ({method}));
+
+async function withRouter(fn: (harness: FnHarness) => Promise<void>): Promise<void> {
+    const harness = new FnHarness(router);
+    await harness.start();
+    try {
+        await fn(harness);
+    } finally {
+        await harness.close();
+    }
+}
+
+test('Routes match method and path and receive params and query', async (t) => {
+    await withRouter(async (harness) => {
+        const user = await harness.invoke({gateway: {method: 'GET', url: '/api/users/a%20b?expand=orders'}});
+        t.deepEqual(user.json(), {id: 'a b', expand: 'orders'});
+        const file = await harness.invoke({gateway: {method: 'GET', url: '/api/files/docs/readme.md'}});
+        t.deepEqual(file.json(), {file: 'docs/readme.md'});
+        const trailing = await harness.invoke({gateway: {method: 'GET', url: '/API/Users/7/'}});
+        t.deepEqual(trailing.json(), {id: '7', expand: null}, 'case-insensitive, trailing slash allowed');
+        const any = await harness.invoke({gateway: {method: 'PATCH', url: '/api/echo'}});
+        t.deepEqual(any.json(), {method: 'PATCH'});
+    });
+    t.end();
+});
+
+test('Route input validators reject bad bodies', async (t) => {
+    await withRouter(async (harness) => {
+        const created = await harness.invoke({body: {name: 'ann'}, gateway: {method: 'POST', url: '/api/users'}});
+        t.deepEqual(created.json(), {created: {name: 'ann'}});
+        const invalid = await harness.invoke({body: {}, gateway: {method: 'POST', url: '/api/users'}});
+        t.equal(invalid.status, 400);
+    });
+    t.end();
+});
+
+test('Unmatched paths are 404s and other methods 405s with Allow', async (t) => {
+    await withRouter(async (harness) => {
+        t.equal((await harness.invoke({gateway: {method: 'GET', url: '/api/nope'}})).status, 404);
+        t.equal((await harness.invoke({gateway: {method: 'GET', url: '/users/1'}})).status, 404, 'outside the base path');
+        t.equal((await harness.invoke({gateway: {method: 'GET', url: '/api/users/%E0%A4%A'}})).status, 400, 'malformed escapes');
+
+        const notAllowed = await harness.invoke({gateway: {method: 'PUT', url: '/api/users/1'}});
+        t.equal(notAllowed.status, 405);
+        t.deepEqual(notAllowed.headers['allow'], ['GET, DELETE, HEAD, OPTIONS']);
+
+        const options = await harness.invoke({gateway: {method: 'OPTIONS', url: '/api/users/1'}});
+        t.equal(options.status, 204);
+        t.deepEqual(options.headers['allow'], ['GET, DELETE, HEAD, OPTIONS']);
+
+        const head = await harness.invoke({gateway: {method: 'HEAD', url: '/api/users/1'}});
+        t.equal(head.status, 200, 'HEAD is served by GET routes');
+    });
+    t.end();
+});
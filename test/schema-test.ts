@@ -0,0 +1,80 @@
+import test from 'tape';
+import {invoke} from '../fdk/harness';
+import {jsonSchema, validate} from '../fdk/schema';
+
+const user = jsonSchema<{ name: string, age?: number, tags?: string[] }>({
+    type: 'object',
+    required: ['name'],
+    additionalProperties: false,
+    properties: {
+        name: {type: 'string', minLength: 1, maxLength: 5},
+        email: {type: 'string', format: 'email'},
+        age: {type: 'integer', minimum: 0, exclusiveMaximum: 150},
+        tags: {type: 'array', items: {type: 'string', pattern: '^[a-z]+$'}, uniqueItems: true, maxItems: 2}
+    }
+});
+
+test('Schemas report each problem with its JSON pointer path', (t) => {
+    t.deepEqual(validate(user, {name: 'ann', age: 3, tags: ['a', 'b']}), []);
+    t.deepEqual(validate(user, {age: 1.5, extra: true}), [
+        {path: '/name', message: 'is required'},
+        {path: '/age', message: 'must be integer'},
+        {path: '/extra', message: 'is not allowed'}
+    ]);
+    t.deepEqual(validate(user, {name: 'toolong', email: 'nope', tags: ['x', 'x', 'Y']}), [
+        {path: '/name', message: 'must have at most 5 characters'},
+        {path: '/email', message: 'must be a valid email'},
+        {path: '/tags', message: 'must have at most 2 items'},
+        {path: '/tags', message: 'must not contain duplicate items'},
+        {path: '/tags/2', message: 'must match pattern ^[a-z]+$'}
+    ]);
+    t.deepEqual(validate(user, [1]), [{path: '', message: 'must be object'}]);
+    t.end();
+});
+
+test('Schemas support enum, const and the combinators', (t) => {
+    t.deepEqual(validate({enum: ['a', 'b']}, 'c'), [{path: '', message: 'must be one of "a", "b"'}]);
+    t.deepEqual(validate({const: {x: 1}}, {x: 1}), []);
+    t.deepEqual(validate({anyOf: [{type: 'string'}, {type: 'number'}]}, true),
+        [{path: '', message: 'must match at least one of the allowed schemas'}]);
+    t.deepEqual(validate({oneOf: [{type: 'number'}, {type: 'integer'}]}, 3),
+        [{path: '', message: 'must match exactly one of the allowed schemas'}]);
+    t.deepEqual(validate({not: {type: 'null'}}, null), [{path: '', message: 'must not match the excluded schema'}]);
+    t.deepEqual(validate({type: ['string', 'null'], allOf: [{minLength: 2}]}, 'a'),
+        [{path: '', message: 'must have at least 2 characters'}]);
+    t.deepEqual(validate({type: 'number', multipleOf: 0.5}, 1.5), []);
+    t.end();
+});
+
+test('Validator functions may return a boolean or a list of problems', (t) => {
+    t.deepEqual(validate((v) => v === 1, 2), [{path: '', message: 'is invalid'}]);
+    t.deepEqual(validate((v): v is number => typeof v === 'number', 2), []);
+    t.deepEqual(validate(() => ['too small'], 2), [{path: '', message: 'too small'}]);
+    t.deepEqual(validate(() => [{path: '/x', message: 'is odd'}], 2), [{path: '/x', message: 'is odd'}]);
+    t.end();
+});
+
+test('Invalid input is rejected with a 400 before the function runs', async (t) => {
+    let ran = false;
+    const res = await invoke((body) => {
+        ran = true;
+        return body;
+    }, {body: {age: -1}, gateway: {method: 'POST', url: '/'}}, {input: user});
+    t.equal(res.status, 400);
+    t.notOk(ran, 'the function did not run');
+    const body = res.json() as { code: string, message: string, details: unknown };
+    t.equal(body.code, 'INVALID_INPUT');
+    t.equal(body.message, 'Invalid request body: /name is required, /age must be >= 0');
+    t.deepEqual(body.details, [{path: '/name', message: 'is required'}, {path: '/age', message: 'must be >= 0'}]);
+    t.end();
+});
+
+test('Invalid output fails the call without sending it', async (t) => {
+    const valid = await invoke(() => ({name: 'ann'}), {}, {output: user});
+    t.deepEqual(valid.json(), {name: 'ann'});
+
+    const invalid = await invoke((): unknown => ({name: 'ann', password: 'secret'}), {gateway: {method: 'GET', url: '/'}}, {output: user});
+    t.equal(invalid.status, 502);
+    t.notOk(invalid.text().includes('secret'));
+    t.end();
+});
@@ -0,0 +1,68 @@
+import fs from 'fs';
+import test from 'tape';
+import {onShutdown} from '../fdk/fdk';
+import {callFunction} from '../fdk/harness';
+import {delay, startFunction} from './helpers';
+
+test('shutdown waits for in-flight calls and removes the socket and symlink', async (t) => {
+    const fn = await startFunction(async () => {
+        await delay(200);
+        return 'finished';
+    });
+    const call = callFunction(fn.listenFile, {}, 5000);
+    await delay(50);
+    let closed = false;
+    const closing = fn.close().then(() => {
+        closed = true;
+    });
+    await delay(20);
+    t.notOk(fs.existsSync(fn.listenFile), 'symlink removed at once');
+    t.notOk(closed, 'still draining');
+
+    const res = await call;
+    t.equal(res.status, 200);
+    t.equal(res.json(), 'finished');
+    await closing;
+    t.notOk(fs.existsSync(fn.tmpFile), 'socket removed');
+    fn.remove();
+    t.end();
+});
+
+test('shutdown gives up on calls running past shutdownTimeoutMs', async (t) => {
+    const fn = await startFunction(async () => {
+        await delay(1000);
+        return 'too slow';
+    }, {shutdownTimeoutMs: 100});
+    const call = callFunction(fn.listenFile, {}, 5000).catch(() => null);
+    await delay(50);
+    const startedAt = Date.now();
+    await fn.close();
+    t.ok(Date.now() - startedAt < 800, 'closed before the call completed');
+    await call;
+    fn.remove();
+    t.end();
+});
+
+test('shutdown hooks run once calls have drained and can be unregistered', async (t) => {
+    const events: string[] = [];
+    const fn = await startFunction(async () => {
+        await delay(100);
+        events.push('call');
+        return 'ok';
+    });
+    const unregister = onShutdown(async () => {
+        events.push('hook');
+    });
+    const removed = onShutdown(() => {
+        events.push('removed hook');
+    });
+    removed();
+    const call = callFunction(fn.listenFile, {}, 5000);
+    await delay(20);
+    await fn.close();
+    await call;
+    unregister();
+    t.deepEqual(events, ['call', 'hook']);
+    fn.remove();
+    t.end();
+});
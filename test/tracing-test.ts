@@ -0,0 +1,75 @@
+import test from 'tape';
+import {invoke} from '../fdk/harness';
+import {flushZipkinExporters, Span, ZipkinExporter, ZipkinSpan} from '../fdk/tracing';
+import {delay, startServer} from './helpers';
+
+test('Zipkin exporters post finished spans to the collector', async (t) => {
+    const collector = await startServer((req, res) => {
+        res.statusCode = 202;
+        res.end();
+    });
+    try {
+        const exporter = new ZipkinExporter(`${collector.url}/api/v2/spans`);
+        const root = new Span({name: 'root', serviceName: 'app::fn', traceId: 'a'.repeat(32), sampled: true, exporter});
+        root.startChild('child', 'CLIENT').setTag('http.status_code', 200).end();
+        root.end();
+        new Span({name: 'unsampled', serviceName: 'app::fn', traceId: 'b'.repeat(32), sampled: false, exporter}).end();
+        await exporter.flush();
+
+        t.equal(collector.requests.length, 1, 'one batch');
+        const spans = JSON.parse(collector.requests[0].body.toString()) as ZipkinSpan[];
+        t.deepEqual(spans.map((s) => s.name), ['child', 'root']);
+        t.equal(spans[0].parentId, root.id);
+        t.deepEqual(spans[0].tags, {'http.status_code': '200'});
+        t.equal(collector.requests[0].headers['content-type'], 'application/json');
+    } finally {
+        await collector.close();
+    }
+    t.end();
+});
+
+test('Zipkin exports give up on a collector that does not answer', async (t) => {
+    const collector = await startServer(() => undefined);
+    try {
+        const exporter = new ZipkinExporter(collector.url, {timeoutMs: 100});
+        new Span({name: 'lost', serviceName: 'app::fn', traceId: 'c'.repeat(32), sampled: true, exporter}).end();
+        const started = Date.now();
+        await exporter.flush();
+        t.ok(Date.now() - started < 2000, 'flush settles after the timeout');
+        t.equal(collector.requests.length, 1);
+    } finally {
+        await collector.close();
+    }
+    t.end();
+});
+
+test('Traced invocations continue the caller trace', async (t) => {
+    const collector = await startServer((req, res) => res.end());
+    const traceId = 'd'.repeat(32);
+    try {
+        const res = await invoke((input, ctx) => {
+            ctx.tracingContext.startSpan('work').end();
+            return ctx.tracingContext.propagationHeaders();
+        }, {
+            headers: {'X-B3-TraceId': traceId, 'X-B3-SpanId': 'e'.repeat(16), 'X-B3-Sampled': '1'}
+        }, {}, {
+            config: {OCI_TRACING_ENABLED: '1', OCI_TRACE_COLLECTOR_URL: collector.url}
+        });
+        const propagated = res.json() as { [key: string]: string };
+        t.equal(propagated['X-B3-TraceId'], traceId);
+        t.equal(propagated['X-B3-SpanId'], 'e'.repeat(16));
+
+        for (let i = 0; i < 50 && !collector.requests.length; i++) {
+            await flushZipkinExporters();
+            await delay(20);
+        }
+        const spans = collector.requests.flatMap((r) => JSON.parse(r.body.toString()) as ZipkinSpan[]);
+        const work = spans.find((s) => s.name === 'work');
+        t.ok(work, 'the child span was exported');
+        t.equal(work && work.traceId, traceId);
+        t.equal(work && work.parentId, 'e'.repeat(16));
+    } finally {
+        await collector.close();
+    }
+    t.end();
+});